@@ -6,12 +6,19 @@ for the Renow Recommerce Product Suggester application.
 
 import urllib.request
 import json
+import os
 import ssl
 import re
 
-def fetch_taxonomy():
+# Local copy of the full taxonomy loaded by the server (TAXONOMY_FILE)
+FULL_TAXONOMY_FILE = "server/data/taxonomy-with-ids.en-US.txt"
+
+# Localized copies with the same IDs, used for translated category labels
+LOCALES = ["de-DE", "fr-FR", "es-ES", "it-IT", "nl-NL"]
+
+def fetch_taxonomy(locale="en-US"):
     """Fetch the Google Product Taxonomy from the official source."""
-    url = "https://www.google.com/basepages/producttype/taxonomy-with-ids.en-US.txt"
+    url = f"https://www.google.com/basepages/producttype/taxonomy-with-ids.{locale}.txt"
     
     # Create unverified context to bypass SSL issues
     context = ssl._create_unverified_context()
@@ -93,6 +100,22 @@ def main():
         return
     
     print("✅ Taxonomy fetched successfully")
+
+    # Keep the full file with IDs for the server's hierarchical index
+    os.makedirs(os.path.dirname(FULL_TAXONOMY_FILE), exist_ok=True)
+    with open(FULL_TAXONOMY_FILE, 'w', encoding='utf-8') as f:
+        f.write(content)
+    print(f"✅ Full taxonomy written to {FULL_TAXONOMY_FILE}")
+
+    for locale in LOCALES:
+        localized = fetch_taxonomy(locale)
+        if not localized:
+            print(f"⚠️  Skipping {locale} taxonomy")
+            continue
+        localized_file = FULL_TAXONOMY_FILE.replace("en-US", locale)
+        with open(localized_file, 'w', encoding='utf-8') as f:
+            f.write(localized)
+        print(f"✅ {locale} taxonomy written to {localized_file}")
     
     # Extract electronics categories
     categories = extract_electronics_categories(content)
@@ -108,7 +131,7 @@ def main():
     }
     
     # Write to file
-    output_file = "public/taxonomy-subset.json"
+    output_file = "shared/taxonomy-subset.json"
     try:
         with open(output_file, 'w', encoding='utf-8') as f:
             json.dump(subset_data, f, indent=2, ensure_ascii=False)
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ApiKeyStore, QuotaTracker } from './auth'
+
+const tempFile = () => join(mkdtempSync(join(tmpdir(), 'api-keys-')), 'keys.json')
+
+describe('ApiKeyStore', () => {
+  it('issues, verifies and revokes keys, persisting only their hashes', () => {
+    const file = tempFile()
+    const store = new ApiKeyStore(file)
+    const { key, record } = store.issue('Partner shop', { dailyQuota: 50 })
+
+    expect(key).toMatch(/^rk_/)
+    expect(record).toMatchObject({ name: 'Partner shop', prefix: key.slice(0, 7), dailyQuota: 50 })
+    expect(readFileSync(file, 'utf8')).not.toContain(key)
+
+    const reloaded = new ApiKeyStore(file)
+    expect(reloaded.verify(key)?.id).toBe(record.id)
+    expect(reloaded.verify('rk_unknown')).toBeUndefined()
+
+    reloaded.revoke(record.id)
+    expect(reloaded.verify(key)).toBeUndefined()
+    expect(new ApiKeyStore(file).get(record.id)?.revokedAt).toBeDefined()
+  })
+})
+
+describe('QuotaTracker', () => {
+  it('refuses usage beyond the daily quota and resets the next day', () => {
+    let now = new Date('2026-10-19T10:00:00Z')
+    const quotas = new QuotaTracker(() => now)
+
+    expect(quotas.consume('key', 3, 2)).toBe(true)
+    expect(quotas.consume('key', 3, 2)).toBe(false)
+    expect(quotas.consume('key', 3)).toBe(true)
+    expect(quotas.used('key')).toBe(3)
+
+    now = new Date('2026-10-20T00:00:01Z')
+    expect(quotas.used('key')).toBe(0)
+    expect(quotas.consume('key', 3)).toBe(true)
+  })
+})
@@ -0,0 +1,168 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import type { RequestHandler, Response } from 'express'
+import { requestLogger, sendError } from './logger'
+import { dataFile } from './paths'
+
+export interface ApiKeyLimits {
+  // Requests per minute across all /api/ routes
+  rateLimitPerMinute: number
+  // Suggestions per UTC day; each batch item counts as one
+  dailyQuota: number
+}
+
+export interface ApiKeyRecord extends ApiKeyLimits {
+  id: string
+  name: string
+  // First characters of the key, enough to recognize it in listings
+  prefix: string
+  // SHA-256 of the key; the key itself is only shown once, when it is issued
+  hash: string
+  createdAt: string
+  revokedAt?: string
+}
+
+export const DEFAULT_KEY_LIMITS: ApiKeyLimits = {
+  rateLimitPerMinute: Number(process.env.API_KEY_RATE_LIMIT) || 30,
+  dailyQuota: Number(process.env.API_KEY_DAILY_QUOTA) || 1000
+}
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+// API keys persisted as JSON (API_KEYS_FILE, server/data/api-keys.json by default). Lookups use the key hash,
+// so the file never contains usable keys.
+export class ApiKeyStore {
+  private records: ApiKeyRecord[]
+
+  constructor(private file = resolve(process.env.API_KEYS_FILE || dataFile('api-keys.json'))) {
+    this.records = existsSync(file) ? (JSON.parse(readFileSync(file, 'utf8')).keys ?? []) : []
+  }
+
+  list(): ApiKeyRecord[] {
+    return [...this.records]
+  }
+
+  get(id: string): ApiKeyRecord | undefined {
+    return this.records.find(record => record.id === id)
+  }
+
+  // Active (not revoked) record for a presented key
+  verify(key: string): ApiKeyRecord | undefined {
+    const hash = hashKey(key)
+    return this.records.find(record => record.hash === hash && !record.revokedAt)
+  }
+
+  issue(name: string, limits: Partial<ApiKeyLimits> = {}): { key: string; record: ApiKeyRecord } {
+    const key = `rk_${randomBytes(24).toString('base64url')}`
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      prefix: key.slice(0, 7),
+      hash: hashKey(key),
+      createdAt: new Date().toISOString(),
+      ...DEFAULT_KEY_LIMITS,
+      ...limits
+    }
+    this.records.push(record)
+    this.save()
+    return { key, record }
+  }
+
+  revoke(id: string): ApiKeyRecord | undefined {
+    const record = this.get(id)
+    if (record && !record.revokedAt) {
+      record.revokedAt = new Date().toISOString()
+      this.save()
+    }
+    return record
+  }
+
+  // Written to a temporary file first so a crash never leaves a truncated key file behind
+  private save(): void {
+    mkdirSync(dirname(this.file), { recursive: true })
+    const temporary = `${this.file}.tmp`
+    writeFileSync(temporary, JSON.stringify({ keys: this.records }, null, 2), { mode: 0o600 })
+    renameSync(temporary, this.file)
+  }
+}
+
+// Suggestions used per key and UTC day. Usage is kept in memory, so a restart resets the day's count.
+export class QuotaTracker {
+  private usage = new Map<string, { day: string; used: number }>()
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  used(id: string): number {
+    const entry = this.usage.get(id)
+    return entry?.day === this.today() ? entry.used : 0
+  }
+
+  // Records `units` against the quota unless that would exceed it; returns whether it was recorded
+  consume(id: string, quota: number, units = 1): boolean {
+    const used = this.used(id)
+    if (used + units > quota) return false
+    this.usage.set(id, { day: this.today(), used: used + units })
+    return true
+  }
+
+  private today(): string {
+    return this.now().toISOString().slice(0, 10)
+  }
+}
+
+// API_AUTH=required checks keys on every /api/ route except the health check; "off" disables it.
+// Defaults to required in production only, so local development works without keys.
+export function authRequired(): boolean {
+  const mode = process.env.API_AUTH || (process.env.NODE_ENV === 'production' ? 'required' : 'off')
+  return mode !== 'off'
+}
+
+const bearerToken = (header?: string) => /^Bearer\s+(\S+)$/i.exec(header ?? '')?.[1]
+
+export function requireApiKey(store: ApiKeyStore): RequestHandler {
+  return (req, res, next) => {
+    const key = bearerToken(req.get('Authorization')) ?? req.get('X-API-Key')
+    if (!key) {
+      return sendError(res, 401, { error: 'API key required', code: 'UNAUTHORIZED' })
+    }
+
+    const record = store.verify(key)
+    if (!record) {
+      return sendError(res, 401, { error: 'Invalid or revoked API key', code: 'INVALID_API_KEY' })
+    }
+
+    res.locals.apiKey = record
+    next()
+  }
+}
+
+export function apiKeyOf(res: Response): ApiKeyRecord | undefined {
+  return res.locals.apiKey as ApiKeyRecord | undefined
+}
+
+// Admin routes need `Authorization: Bearer <ADMIN_TOKEN>` and are disabled while ADMIN_TOKEN is unset
+export function requireAdmin(token = process.env.ADMIN_TOKEN): RequestHandler {
+  return (req, res, next) => {
+    if (!token) {
+      return sendError(res, 403, { error: 'Admin routes are disabled', code: 'ADMIN_DISABLED' })
+    }
+
+    const presented = Buffer.from(bearerToken(req.get('Authorization')) ?? '')
+    const expected = Buffer.from(token)
+    if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      requestLogger(res).warn('Rejected admin request', { path: req.originalUrl })
+      return sendError(res, 401, { error: 'Invalid admin token', code: 'UNAUTHORIZED' })
+    }
+    next()
+  }
+}
+
+// Admin view of a key: everything except the hash
+export function describeKey(record: ApiKeyRecord, quotas?: QuotaTracker) {
+  const { id, name, prefix, createdAt, revokedAt, rateLimitPerMinute, dailyQuota } = record
+  return {
+    id, name, prefix, createdAt, revokedAt, rateLimitPerMinute, dailyQuota,
+    ...(quotas && { usedToday: quotas.used(id) })
+  }
+}
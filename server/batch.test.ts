@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { mapWithConcurrency, parseCsv } from './batch'
+
+describe('csv parsing', () => {
+  it('maps rows onto header columns', () => {
+    const rows = parseCsv('name,condition,notes\niPhone 12,Good,85% battery\r\nPixel 7,Fair,\n')
+    expect(rows).toEqual([
+      { name: 'iPhone 12', condition: 'Good', notes: '85% battery' },
+      { name: 'Pixel 7', condition: 'Fair' }
+    ])
+  })
+
+  it('handles quoted fields', () => {
+    const rows = parseCsv('name,condition,notes\n"MacBook Air, M1",Like New,"Says ""mint"",\nno box"')
+    expect(rows[0]).toEqual({ name: 'MacBook Air, M1', condition: 'Like New', notes: 'Says "mint",\nno box' })
+  })
+
+  it('rejects a header without required columns', () => {
+    expect(() => parseCsv('title,notes\nfoo,bar')).toThrow(/header/)
+  })
+})
+
+describe('bounded concurrency', () => {
+  it('preserves order and never exceeds the limit', async () => {
+    let inFlight = 0
+    let peak = 0
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (n) => {
+      inFlight++
+      peak = Math.max(peak, inFlight)
+      await new Promise(resolve => setTimeout(resolve, n))
+      inFlight--
+      return n * 10
+    })
+    expect(results).toEqual([50, 10, 30, 20, 40])
+    expect(peak).toBeLessThanOrEqual(2)
+  })
+})
@@ -0,0 +1,89 @@
+// Runs `fn` over `items` with at most `limit` calls in flight, preserving input order in the result
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  await Promise.all(workers)
+  return results
+}
+
+// Parses a CSV body with a header row (e.g. `name,condition,notes`) into one object per data row.
+// Supports quoted fields with embedded commas, newlines and doubled quotes.
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = splitCsvRows(text.replace(/^\uFEFF/, ''))
+    .filter(row => row.some(cell => cell.trim() !== ''))
+
+  if (rows.length === 0) return []
+
+  const headers = rows[0].map(h => h.trim().toLowerCase())
+  if (!headers.includes('name') || !headers.includes('condition')) {
+    throw new Error('CSV header must include "name" and "condition" columns')
+  }
+
+  return rows.slice(1).map(cells => {
+    const record: Record<string, string> = {}
+    headers.forEach((header, i) => {
+      const value = cells[i]?.trim()
+      if (header && value) record[header] = value
+    })
+    return record
+  })
+}
+
+function splitCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV body')
+  }
+
+  row.push(cell)
+  rows.push(row)
+  return rows
+}
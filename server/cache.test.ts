@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { MemoryLruCache, RedisCache, suggestionCacheKey } from './cache'
+
+const version = { promptVersion: 'v1', provider: 'local', model: 'local-rules' }
+
+describe('memory LRU cache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new MemoryLruCache(2)
+    await cache.set('a', '1', 60)
+    await cache.set('b', '2', 60)
+    await cache.get('a')
+    await cache.set('c', '3', 60)
+    expect(await cache.get('a')).toBe('1')
+    expect(await cache.get('b')).toBeNull()
+    expect(await cache.get('c')).toBe('3')
+  })
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers()
+    const cache = new MemoryLruCache()
+    await cache.set('a', '1', 10)
+    vi.advanceTimersByTime(11_000)
+    expect(await cache.get('a')).toBeNull()
+  })
+})
+
+describe('redis cache', () => {
+  it('misses and skips writes while Redis is unreachable', async () => {
+    // Nothing listens on port 1, so the client never becomes ready
+    const cache = new RedisCache('redis://127.0.0.1:1')
+    try {
+      await expect(cache.set('a', '1', 60)).resolves.toBeUndefined()
+      await expect(cache.get('a')).resolves.toBeNull()
+    } finally {
+      await cache.close()
+    }
+  }, 1000)
+})
+
+describe('cache keys', () => {
+  it('ignores case and whitespace differences', () => {
+    const a = suggestionCacheKey({ name: 'iPhone 12  Pro', condition: 'Good', notes: ' 85% battery' }, version)
+    const b = suggestionCacheKey({ name: 'iphone 12 pro', condition: 'Good', notes: '85% Battery ' }, version)
+    expect(a).toBe(b)
+  })
+
+  it('changes with condition and prompt version', () => {
+    const input = { name: 'iPhone 12 Pro', condition: 'Good' as const }
+    const key = suggestionCacheKey(input, version)
+    expect(suggestionCacheKey({ ...input, condition: 'Fair' }, version)).not.toBe(key)
+    expect(suggestionCacheKey(input, { ...version, promptVersion: 'v2' })).not.toBe(key)
+  })
+})
@@ -0,0 +1,116 @@
+import { createHash } from 'crypto'
+import { createClient } from 'redis'
+import type { FormInput } from '../shared/types'
+import { logger } from './logger'
+
+export interface CacheBackend {
+  readonly name: string
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlSeconds: number): Promise<void>
+}
+
+// In-process LRU: Map iteration order doubles as recency order
+export class MemoryLruCache implements CacheBackend {
+  readonly name = 'memory'
+  private entries = new Map<string, { value: string; expiresAt: number }>()
+  private maxEntries: number
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return null
+
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+// Redis backend; connection problems degrade to cache misses instead of failing requests. The client
+// keeps reconnecting in the background, and while it is not ready reads miss and writes are skipped
+// rather than waiting for a connection (commands are not queued offline).
+export class RedisCache implements CacheBackend {
+  readonly name = 'redis'
+  private client: ReturnType<typeof createClient>
+  private prefix: string
+
+  constructor(url: string, prefix = 'renow:suggest:') {
+    this.prefix = prefix
+    this.client = createClient({ url, disableOfflineQueue: true, socket: { connectTimeout: 2000 } })
+    this.client.on('error', (error) => logger.warn('Redis cache error', { error: error.message }))
+    this.client.connect().catch((error) => logger.warn('Redis cache unavailable', { error: error.message }))
+  }
+
+  async get(key: string): Promise<string | null> {
+    if (!this.client.isReady) return null
+    try {
+      return await this.client.get(this.prefix + key)
+    } catch (error) {
+      logger.warn('Redis cache read failed', { error })
+      return null
+    }
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (!this.client.isReady) return
+    try {
+      await this.client.set(this.prefix + key, value, { EX: ttlSeconds })
+    } catch (error) {
+      logger.warn('Redis cache write failed', { error })
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) await this.client.disconnect()
+  }
+}
+
+export const CACHE_TTL_SECONDS = Number(process.env.SUGGESTION_CACHE_TTL) || 24 * 60 * 60
+
+// SUGGESTION_CACHE selects the backend: "memory" (default), "redis" (uses REDIS_URL) or "off"
+export function createCache(): CacheBackend | null {
+  switch (process.env.SUGGESTION_CACHE || 'memory') {
+    case 'off':
+      return null
+    case 'redis':
+      return new RedisCache(process.env.REDIS_URL || 'redis://localhost:6379')
+    default:
+      return new MemoryLruCache(Number(process.env.SUGGESTION_CACHE_MAX_ENTRIES) || 500)
+  }
+}
+
+// Inputs that differ only in case or whitespace share an entry; prompt and model changes invalidate it
+export function suggestionCacheKey(
+  input: FormInput,
+  version: { promptVersion: string; provider: string; model: string }
+): string {
+  const normalize = (value?: string) => (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase()
+  const material = JSON.stringify([
+    version.promptVersion,
+    version.provider,
+    version.model,
+    normalize(input.name),
+    input.condition,
+    normalize(input.notes),
+    input.profile ?? 'generic',
+    input.locale ?? 'en-US',
+    [...new Set(input.defects ?? [])].sort()
+  ])
+  return createHash('sha256').update(material).digest('hex')
+}
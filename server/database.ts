@@ -0,0 +1,15 @@
+import { mkdirSync } from 'fs'
+import { dirname, resolve } from 'path'
+import Database from 'better-sqlite3'
+
+// Opens (creating if needed) a SQLite file, a relative path being relative to the working directory; ":memory:" opens an in-memory database
+export function openDatabase(file: string, schema: string): Database.Database {
+  if (file !== ':memory:') {
+    file = resolve(file)
+    mkdirSync(dirname(file), { recursive: true })
+  }
+  const db = new Database(file)
+  db.pragma('journal_mode = WAL')
+  db.exec(schema)
+  return db
+}
@@ -0,0 +1,57 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+import { parseArgs } from 'util'
+import { fixtureMode } from '../shared/fixtures'
+import { createProvider } from '../shared/providers'
+import { baselineMismatches, compareReports, evaluate, formatReport } from './evaluation'
+import type { EvaluationReport, GoldenItem } from './evaluation'
+import { withFixtures } from './fixtures'
+import { gradingScheme } from './grading'
+
+// Offline evaluation of the suggestion pipeline against the golden dataset (npm run eval from the repo root).
+// Exits with 1 when a metric is worse than the saved baseline; --update-baseline saves the run as the new one.
+// A baseline recorded with another provider, model or taxonomy is not compared with.
+const { values: options } = parseArgs({
+  options: {
+    dataset: { type: 'string', default: 'eval/golden.json' },
+    baseline: { type: 'string', default: 'eval/baseline.json' },
+    provider: { type: 'string', default: 'local' },
+    // record: save the provider's responses as fixtures; replay: evaluate against saved ones
+    fixtures: { type: 'string' },
+    // Version of the suggestion prompt to evaluate, the newest by default
+    'prompt-version': { type: 'string' },
+    concurrency: { type: 'string', default: '1' },
+    'update-baseline': { type: 'boolean', default: false }
+  }
+})
+
+const readJson = <T>(file: string): T => JSON.parse(readFileSync(resolve(file), 'utf-8'))
+
+const provider = withFixtures(() => createProvider({
+  provider: options.provider,
+  apiKey: process.env.GEMINI_API_KEY,
+  model: process.env.LLM_MODEL,
+  gradingScheme
+}), fixtureMode(options.fixtures ?? process.env.LLM_FIXTURES))
+
+const items = readJson<GoldenItem[]>(options.dataset)
+const report = await evaluate(items, provider, {
+  concurrency: Math.max(1, Number(options.concurrency) || 1),
+  promptVersion: options['prompt-version']
+})
+const baseline = existsSync(resolve(options.baseline)) ? readJson<EvaluationReport>(options.baseline) : null
+const mismatches = baseline ? baselineMismatches(baseline, report) : []
+const diff = baseline && mismatches.length === 0 ? compareReports(baseline, report) : undefined
+
+console.log(formatReport(report, diff))
+
+if (options['update-baseline']) {
+  writeFileSync(resolve(options.baseline), `${JSON.stringify(report, null, 2)}\n`)
+  console.log(`\nSaved the baseline to ${options.baseline}`)
+} else if (!baseline) {
+  console.log(`\nNo baseline at ${options.baseline}; run with --update-baseline to save this run as one`)
+} else if (mismatches.length > 0) {
+  console.log(`\nNot compared with ${options.baseline}, which was recorded with ${mismatches.join(', ')}; pass --baseline <file> with one recorded for this setup, or save one with --update-baseline`)
+} else if (diff?.worse) {
+  process.exitCode = 1
+}
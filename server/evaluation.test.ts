@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { LocalProvider } from '../shared/providers'
+import { baselineMismatches, compareReports, evaluate, scoreFailure } from './evaluation'
+import type { GoldenItem } from './evaluation'
+import { SuggestionError } from './suggestions'
+
+const items: GoldenItem[] = [
+  { id: 'phone', input: { name: 'Apple iPhone 12 smartphone', condition: 'B' }, expectedCategory: 'Electronics > Communications > Telephony > Mobile Phones' },
+  { id: 'laptop', input: { name: 'MacBook Air laptop', condition: 'A' }, expectedCategory: 'Electronics > Video > Monitors' }
+]
+
+describe('evaluation', () => {
+  it('scores category accuracy over the golden items', async () => {
+    const report = await evaluate(items, new LocalProvider())
+
+    expect(report).toMatchObject({ provider: 'local', model: 'local-rules' })
+    expect(report.summary).toEqual({
+      items: 2, categoryAccuracy: 0.5, fallbackRate: 0, parseFailures: 0, wordCountViolations: 0, errors: 0
+    })
+    expect(report.outcomes[1]).toMatchObject({ id: 'laptop', category: 'Electronics > Computers > Laptops', correct: false })
+  })
+
+  it('counts unparseable responses apart from other errors', () => {
+    expect(scoreFailure(items[0], new SuggestionError('Failed to parse AI response', 500, 'PARSE_ERROR')))
+      .toMatchObject({ category: null, correct: false, parseFailure: true })
+    expect(scoreFailure(items[0], new Error('boom')))
+      .toMatchObject({ parseFailure: false, error: 'INTERNAL_ERROR' })
+  })
+
+  it('flags worse metrics and items that are no longer correct', async () => {
+    const baseline = await evaluate(items, new LocalProvider())
+    const outcomes = [baseline.outcomes[0], { ...baseline.outcomes[1], correct: true }]
+    const improved = { ...baseline, summary: { ...baseline.summary, categoryAccuracy: 1 }, outcomes }
+
+    expect(compareReports(baseline, improved)).toMatchObject({ fixed: ['laptop'], regressed: [], worse: false })
+
+    const diff = compareReports(improved, { ...baseline, summary: { ...baseline.summary, parseFailures: 1 } })
+    expect(diff.regressed).toEqual(['laptop'])
+    expect(diff.worse).toBe(true)
+    expect(diff.metrics.filter(change => change.worse).map(change => change.metric)).toEqual(['categoryAccuracy', 'parseFailures'])
+  })
+
+  it('names the settings a baseline was recorded with when they differ from the run', async () => {
+    const baseline = await evaluate(items, new LocalProvider())
+
+    expect(baselineMismatches(baseline, { ...baseline, promptVersion: 'v1' })).toEqual([])
+    expect(baselineMismatches(baseline, { ...baseline, provider: 'gemini', model: 'gemini-2.5-flash' }))
+      .toEqual(['provider local, not gemini', 'model local-rules, not gemini-2.5-flash'])
+    expect(baselineMismatches(baseline, { ...baseline, taxonomyVersion: 'google:2021-09-21' }))
+      .toEqual([`taxonomyVersion ${baseline.taxonomyVersion}, not google:2021-09-21`])
+  })
+})
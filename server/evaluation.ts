@@ -0,0 +1,204 @@
+import { getPromptTemplate, SUGGESTION_PROMPT } from '../shared/prompts'
+import type { LlmProvider } from '../shared/providers'
+import type { FormInput, SuggestionResult } from '../shared/types'
+import { mapWithConcurrency } from './batch'
+import { generateSuggestion, toErrorResponse } from './suggestions'
+import { taxonomy } from './taxonomy'
+
+// One product of the golden dataset (eval/golden.json)
+export type GoldenItem = {
+  id: string
+  input: FormInput
+  expectedCategory: string
+}
+
+export type ItemOutcome = {
+  id: string
+  expectedCategory: string
+  // Null when no suggestion was produced
+  category: string | null
+  correct: boolean
+  // The category came from the similarity fallback rather than a path the model named
+  fallback: boolean
+  parseFailure: boolean
+  // The description was longer than the listing profile allows (and had to be trimmed)
+  wordCountViolation: boolean
+  // Error code of a suggestion that failed for another reason
+  error?: string
+}
+
+export type EvaluationSummary = {
+  items: number
+  categoryAccuracy: number
+  fallbackRate: number
+  parseFailures: number
+  wordCountViolations: number
+  errors: number
+}
+
+export type EvaluationReport = {
+  provider: string
+  model: string
+  promptVersion: string
+  taxonomyVersion: string
+  summary: EvaluationSummary
+  outcomes: ItemOutcome[]
+}
+
+export type MetricChange = {
+  metric: keyof EvaluationSummary
+  baseline: number
+  current: number
+  delta: number
+  // Higher accuracy is better, fewer of everything else is
+  worse: boolean
+}
+
+export type EvaluationDiff = {
+  metrics: MetricChange[]
+  // Items categorized correctly in only one of the two runs
+  fixed: string[]
+  regressed: string[]
+  worse: boolean
+}
+
+const PARSE_FAILURES = new Set(['PARSE_ERROR', 'EMPTY_RESPONSE'])
+
+const ratio = (count: number, total: number) => total > 0 ? Math.round(count / total * 10000) / 10000 : 0
+
+export function scoreResult(item: GoldenItem, result: SuggestionResult): ItemOutcome {
+  const top = result.categoryCandidates?.[0]
+  const check = result.listingCheck
+  return {
+    id: item.id,
+    expectedCategory: item.expectedCategory,
+    category: result.category,
+    correct: result.category === item.expectedCategory,
+    fallback: top?.reason === 'similarity_fallback' || top?.reason === 'default',
+    parseFailure: false,
+    wordCountViolation: Boolean(
+      check?.adjusted.includes('DESCRIPTION_TOO_LONG') || check?.violations.some(v => v.code === 'DESCRIPTION_TOO_LONG')
+    )
+  }
+}
+
+export function scoreFailure(item: GoldenItem, error: unknown): ItemOutcome {
+  const { code } = toErrorResponse(error)
+  const parseFailure = PARSE_FAILURES.has(code)
+  return {
+    id: item.id,
+    expectedCategory: item.expectedCategory,
+    category: null,
+    correct: false,
+    fallback: false,
+    parseFailure,
+    wordCountViolation: false,
+    ...(!parseFailure && { error: code })
+  }
+}
+
+export function summarize(outcomes: ItemOutcome[]): EvaluationSummary {
+  const count = (test: (outcome: ItemOutcome) => boolean) => outcomes.filter(test).length
+  const suggested = count(outcome => outcome.category !== null)
+  return {
+    items: outcomes.length,
+    categoryAccuracy: ratio(count(outcome => outcome.correct), outcomes.length),
+    fallbackRate: ratio(count(outcome => outcome.fallback), suggested),
+    parseFailures: count(outcome => outcome.parseFailure),
+    wordCountViolations: count(outcome => outcome.wordCountViolation),
+    errors: count(outcome => outcome.error !== undefined)
+  }
+}
+
+// Runs every item through the same pipeline as /api/suggest, without the cache and with one prompt
+// version (the newest by default) instead of the PROMPT_VERSIONS experiment
+export async function evaluate(
+  items: GoldenItem[],
+  provider: LlmProvider,
+  { concurrency = 1, promptVersion }: { concurrency?: number; promptVersion?: string } = {}
+): Promise<EvaluationReport> {
+  // Throws on a version the registry does not have
+  const { version } = getPromptTemplate(SUGGESTION_PROMPT, promptVersion)
+  const outcomes = await mapWithConcurrency(items, concurrency, async item => {
+    try {
+      return scoreResult(item, await generateSuggestion(item.input, provider, version))
+    } catch (error) {
+      return scoreFailure(item, error)
+    }
+  })
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    promptVersion: version,
+    taxonomyVersion: taxonomy.version,
+    summary: summarize(outcomes),
+    outcomes
+  }
+}
+
+// A baseline is only comparable with runs of the same model on the same categories; the prompt version may
+// differ, since comparing prompts is what the baseline is for
+const COMPARABLE_SETTINGS = ['provider', 'model', 'taxonomyVersion'] as const
+
+// Settings the run does not share with the baseline, e.g. "provider local, not gemini"
+export function baselineMismatches(baseline: EvaluationReport, current: EvaluationReport): string[] {
+  return COMPARABLE_SETTINGS
+    .filter(setting => baseline[setting] !== current[setting])
+    .map(setting => `${setting} ${baseline[setting]}, not ${current[setting]}`)
+}
+
+export function compareReports(baseline: EvaluationReport, current: EvaluationReport): EvaluationDiff {
+  const metrics = (Object.keys(current.summary) as (keyof EvaluationSummary)[])
+    .filter(metric => metric !== 'items')
+    .map(metric => {
+      const before = baseline.summary[metric] ?? 0
+      const after = current.summary[metric]
+      const delta = Math.round((after - before) * 10000) / 10000
+      return { metric, baseline: before, current: after, delta, worse: metric === 'categoryAccuracy' ? delta < 0 : delta > 0 }
+    })
+
+  const before = new Map(baseline.outcomes.map(outcome => [outcome.id, outcome.correct]))
+  const fixed = current.outcomes.filter(outcome => outcome.correct && before.get(outcome.id) === false).map(outcome => outcome.id)
+  const regressed = current.outcomes.filter(outcome => !outcome.correct && before.get(outcome.id) === true).map(outcome => outcome.id)
+
+  return { metrics, fixed, regressed, worse: metrics.some(change => change.worse) || regressed.length > 0 }
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function formatMetric(metric: keyof EvaluationSummary, value: number): string {
+  return metric === 'categoryAccuracy' || metric === 'fallbackRate' ? percent(value) : String(value)
+}
+
+export function formatReport(report: EvaluationReport, diff?: EvaluationDiff): string {
+  const { summary } = report
+  const lines = [
+    `Evaluated ${summary.items} items with ${report.provider} (${report.model}), prompt ${report.promptVersion}, taxonomy ${report.taxonomyVersion}`,
+    `  Category accuracy:     ${percent(summary.categoryAccuracy)}`,
+    `  Fallback rate:         ${percent(summary.fallbackRate)}`,
+    `  JSON parse failures:   ${summary.parseFailures}`,
+    `  Word-count violations: ${summary.wordCountViolations}`,
+    `  Other errors:          ${summary.errors}`
+  ]
+
+  const misses = report.outcomes.filter(outcome => !outcome.correct)
+  if (misses.length > 0) {
+    lines.push('', 'Miscategorized:')
+    misses.forEach(outcome => lines.push(
+      `  ${outcome.id}: ${outcome.category ?? outcome.error ?? 'parse failure'} (expected ${outcome.expectedCategory})`
+    ))
+  }
+
+  if (diff) {
+    lines.push('', 'Compared with the baseline:')
+    diff.metrics.forEach(({ metric, baseline, current, delta, worse }) => {
+      const change = delta === 0 ? 'unchanged' : `${formatMetric(metric, baseline)} -> ${formatMetric(metric, current)}${worse ? ' (worse)' : ''}`
+      lines.push(`  ${metric}: ${change}`)
+    })
+    if (diff.fixed.length > 0) lines.push(`  Now correct: ${diff.fixed.join(', ')}`)
+    if (diff.regressed.length > 0) lines.push(`  No longer correct: ${diff.regressed.join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { FeedbackStore, toDatasetRecord } from './feedback'
+
+const input = { name: 'iPhone 12', condition: 'B' }
+const result = {
+  title: 'iPhone 12 - B',
+  marketingText: 'Used iPhone 12',
+  category: 'Electronics > Communications > Telephony > Mobile Phone Accessories',
+  listingId: 'listing-1'
+}
+
+describe('FeedbackStore', () => {
+  it('stores feedback and exports it as labelled records, oldest first', () => {
+    const store = new FeedbackStore(':memory:')
+    const correction = store.add({
+      input,
+      result,
+      rating: 'down',
+      correctedCategory: 'Electronics > Communications > Telephony > Mobile Phones',
+      comment: 'It is a phone'
+    })
+    store.add({ input, result, rating: 'up', owner: 'key-a' })
+
+    expect(correction).toMatchObject({ listingId: 'listing-1', rating: 'down', comment: 'It is a phone' })
+
+    const dataset = [...store.entries()].map(toDatasetRecord)
+    expect(dataset.map(record => record.label)).toEqual([
+      { rating: 'down', category: 'Electronics > Communications > Telephony > Mobile Phones', categoryCorrected: true, comment: 'It is a phone' },
+      { rating: 'up', category: result.category, categoryCorrected: false, comment: null }
+    ])
+    expect(dataset[0]).toMatchObject({ input, output: { title: result.title, marketingText: result.marketingText, category: result.category } })
+
+    expect([...store.entries('2999-01-01T00:00:00.000Z')]).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto'
+import type Database from 'better-sqlite3'
+import type { FeedbackRating, FormInput, SuggestionFeedback } from '../shared/types'
+import { openDatabase } from './database'
+import { dataFile } from './paths'
+
+export type FeedbackRecord = SuggestionFeedback & {
+  id: string
+  createdAt: string
+  // Saved listing the result came from, when the server saved one
+  listingId?: string
+}
+
+// One labelled example per line of the dataset export
+export type DatasetRecord = {
+  id: string
+  createdAt: string
+  input: FormInput
+  output: { title?: string; marketingText: string; category: string }
+  label: {
+    rating: FeedbackRating | null
+    // The corrected category, or the suggested one when the user rated the suggestion up without correcting it
+    category: string | null
+    categoryCorrected: boolean
+    comment: string | null
+  }
+}
+
+type FeedbackRow = {
+  id: string
+  listing_id: string | null
+  rating: FeedbackRating | null
+  corrected_category: string | null
+  comment: string | null
+  input: string
+  result: string
+  created_at: string
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS feedback (
+    id TEXT PRIMARY KEY,
+    owner TEXT,
+    listing_id TEXT,
+    rating TEXT,
+    corrected_category TEXT,
+    comment TEXT,
+    input TEXT NOT NULL,
+    result TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS feedback_created ON feedback (created_at);
+`
+
+function toRecord(row: FeedbackRow): FeedbackRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    input: JSON.parse(row.input),
+    result: JSON.parse(row.result),
+    ...(row.listing_id && { listingId: row.listing_id }),
+    ...(row.rating && { rating: row.rating }),
+    ...(row.corrected_category && { correctedCategory: row.corrected_category }),
+    ...(row.comment && { comment: row.comment })
+  }
+}
+
+// Feedback on suggestions in SQLite (FEEDBACK_DB, server/data/feedback.db by default)
+export class FeedbackStore {
+  private db: Database.Database
+
+  constructor(file = process.env.FEEDBACK_DB || dataFile('feedback.db')) {
+    this.db = openDatabase(file, SCHEMA)
+  }
+
+  add(feedback: SuggestionFeedback & { owner?: string }): FeedbackRecord {
+    const id = randomUUID()
+    this.db.prepare(`
+      INSERT INTO feedback (id, owner, listing_id, rating, corrected_category, comment, input, result, created_at)
+      VALUES (@id, @owner, @listingId, @rating, @correctedCategory, @comment, @input, @result, @createdAt)
+    `).run({
+      id,
+      owner: feedback.owner ?? null,
+      listingId: feedback.result.listingId ?? null,
+      rating: feedback.rating ?? null,
+      correctedCategory: feedback.correctedCategory ?? null,
+      comment: feedback.comment ?? null,
+      input: JSON.stringify(feedback.input),
+      result: JSON.stringify(feedback.result),
+      createdAt: new Date().toISOString()
+    })
+    const row = this.db.prepare('SELECT * FROM feedback WHERE id = ?').get(id) as FeedbackRow
+    return toRecord(row)
+  }
+
+  // Oldest first, read lazily so large exports are not held in memory
+  *entries(since?: string): Generator<FeedbackRecord> {
+    const rows = this.db.prepare('SELECT * FROM feedback WHERE @since IS NULL OR created_at >= @since ORDER BY created_at, rowid')
+      .iterate({ since: since ?? null }) as IterableIterator<FeedbackRow>
+    for (const row of rows) yield toRecord(row)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+export function toDatasetRecord(record: FeedbackRecord): DatasetRecord {
+  const { title, marketingText, category } = record.result
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    input: record.input,
+    output: { ...(title !== undefined && { title }), marketingText, category },
+    label: {
+      rating: record.rating ?? null,
+      category: record.correctedCategory ?? (record.rating === 'up' ? category : null),
+      categoryCorrected: record.correctedCategory !== undefined && record.correctedCategory !== category,
+      comment: record.comment ?? null
+    }
+  }
+}
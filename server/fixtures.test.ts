@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, readdirSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { LocalProvider } from '../shared/providers'
+import { loadFixtures, withFixtures } from './fixtures'
+import { generateSuggestion, toErrorResponse } from './suggestions'
+
+const input = { name: 'Sony WH-1000XM4 headphones', condition: 'A', notes: 'Case included' }
+
+describe('fixtures', () => {
+  it('records suggestions to files and replays them without the live provider', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'))
+    const recorded = await generateSuggestion(input, withFixtures(() => new LocalProvider(), 'record', dir))
+
+    expect(readdirSync(dir)).toHaveLength(1)
+    expect(loadFixtures(dir)[0]).toMatchObject({ provider: 'local', model: 'local-rules' })
+
+    const replay = withFixtures(() => { throw new Error('no live provider when replaying') }, 'replay', dir)
+    const replayed = await generateSuggestion(input, replay)
+    expect(replay.name).toBe('replay')
+    expect(replayed.marketingText).toBe(recorded.marketingText)
+    expect(replayed.category).toBe('Electronics > Audio > Headphones')
+
+    const error = await generateSuggestion({ ...input, notes: 'Never recorded' }, replay).catch(e => e)
+    expect(toErrorResponse(error)).toMatchObject({ status: 500, code: 'FIXTURE_NOT_FOUND' })
+  })
+})
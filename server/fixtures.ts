@@ -0,0 +1,52 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { fixtureMode, RecordingProvider, ReplayProvider } from '../shared/fixtures'
+import type { FixtureMode, ModelFixture } from '../shared/fixtures'
+import type { LlmProvider } from '../shared/providers'
+import { FIXTURES_DIR } from './paths'
+
+// Recorded model responses, one JSON file per prompt. The client replays the same files (src/lib/fixtures.ts).
+export const DEFAULT_FIXTURES_DIR = FIXTURES_DIR
+
+// Named after the prompt, so recording a prompt again replaces its fixture
+export function fixtureFile(prompt: string): string {
+  return `${createHash('sha256').update(prompt).digest('hex').slice(0, 16)}.json`
+}
+
+export function saveFixture(fixture: ModelFixture, dir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR): void {
+  const path = resolve(dir)
+  mkdirSync(path, { recursive: true })
+  writeFileSync(join(path, fixtureFile(fixture.prompt)), `${JSON.stringify(fixture, null, 2)}\n`)
+}
+
+export function loadFixtures(dir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR): ModelFixture[] {
+  const path = resolve(dir)
+  if (!existsSync(path)) return []
+  return readdirSync(path)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(readFileSync(join(path, file), 'utf-8')) as ModelFixture)
+}
+
+const replays = new Map<string, ReplayProvider>()
+
+// LLM_FIXTURES=record saves what the configured provider answers; LLM_FIXTURES=replay answers from the
+// saved fixtures without calling a model. Fixtures are read once per directory.
+export function withFixtures(
+  create: () => LlmProvider,
+  mode: FixtureMode | null = fixtureMode(process.env.LLM_FIXTURES),
+  dir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+): LlmProvider {
+  if (mode === 'replay') {
+    let replay = replays.get(dir)
+    if (!replay) {
+      replay = new ReplayProvider(loadFixtures(dir))
+      replays.set(dir, replay)
+    }
+    return replay
+  }
+
+  const provider = create()
+  return mode === 'record' ? new RecordingProvider(provider, fixture => saveFixture(fixture, dir)) : provider
+}
@@ -0,0 +1,14 @@
+import { DEFAULT_GRADING_SCHEME, getGradingScheme, GRADING_SCHEMES } from '../shared/grading'
+import type { GradingScheme } from '../shared/grading'
+import { logger } from './logger'
+
+// GRADING_SCHEME selects the condition grades: "refurb" (Mint, A, B, C, For Parts; default) or "simple"
+// (Like New, Good, Fair). Legacy condition names stay accepted as aliases in either scheme.
+export function loadGradingScheme(id = process.env.GRADING_SCHEME): GradingScheme {
+  if (id && !GRADING_SCHEMES[id]) {
+    logger.warn('Unknown grading scheme, using the default', { scheme: id, default: DEFAULT_GRADING_SCHEME })
+  }
+  return getGradingScheme(id)
+}
+
+export const gradingScheme = loadGradingScheme()
@@ -2,41 +2,228 @@ import express from 'express'
 import cors from 'cors'
 import helmet from 'helmet'
 import rateLimit from 'express-rate-limit'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { Options } from 'express-rate-limit'
+import multer from 'multer'
 import { z } from 'zod'
-import { CATEGORIES } from './categories'
+import type { BatchItemResult, FormInput, SuggestionResult } from '../shared/types'
+import { apiKeyOf, ApiKeyStore, authRequired, describeKey, QuotaTracker, requireAdmin, requireApiKey } from './auth'
+import { mapWithConcurrency, parseCsv } from './batch'
+import { getSuggestion, regenerateSuggestion, resolveProvider, toErrorResponse } from './suggestions'
+import type { SuggestionOutcome } from './suggestions'
+import { categoryDetails, categoryTree, taxonomy } from './taxonomy'
+import { DEFECT_IDS, DEFECTS, findGrade } from '../shared/grading'
+import { SUPPORTED_LOCALES } from '../shared/locales'
+import { LISTING_PROFILE_IDS } from '../shared/marketplaces'
+import { MAX_INSTRUCTION_LENGTH, REGENERABLE_FIELDS } from '../shared/regeneration'
+import { rankCategories } from '../shared/taxonomy'
+import { createCache } from './cache'
+import { gradingScheme } from './grading'
+import { FeedbackStore, toDatasetRecord } from './feedback'
+import { createListingStore, ListingStore } from './listings'
+import { logger, requestLogger, requestLogging, sendError } from './logger'
+import { feedbackSubmissions, metricsMiddleware, rateLimitRejections, registry } from './metrics'
+import { estimatePrice } from './pricing'
+import type { ImageInput } from './vision'
 
 const app = express()
 const PORT = process.env.PORT || 3001
+const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS) || 50
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4
+const MAX_IMAGES = Number(process.env.SUGGEST_MAX_IMAGES) || 4
+const MAX_IMAGE_BYTES = (Number(process.env.SUGGEST_MAX_IMAGE_MB) || 5) * 1024 * 1024
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+const cache = createCache()
+const AUTH_REQUIRED = authRequired()
+const apiKeys = new ApiKeyStore()
+const quotas = new QuotaTracker()
+const listings = createListingStore()
+const feedback = new FeedbackStore()
+
+// Request IDs and metrics, registered first so every response is logged and counted
+app.use(requestLogging)
+app.use(metricsMiddleware)
 
 // Security middleware
 app.use(helmet())
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:5173'],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-Cache', 'X-Prompt-Version', 'X-Request-Id', 'X-Quota-Remaining']
 }))
 
-// Rate limiting
-const limiter = rateLimit({
+// Rate limit and quota rejections, counted by error code
+function sendRejection(res: express.Response, status: number, body: { error: string; code: string }) {
+  rateLimitRejections.inc({ code: body.code })
+  sendError(res, status, body)
+}
+
+const onRateLimited: Partial<Options>['handler'] = (req, res, next, options) => {
+  sendRejection(res, options.statusCode, { error: options.message, code: 'RATE_LIMITED' })
+}
+
+// Rate limiting: requests without a valid API key share a per-IP limit, checked before authentication so
+// attempts with invalid keys are limited too (requests that authenticate are not counted against it);
+// each API key has its own per-minute limit
+const ipLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  limit: 100, // limit each IP to 100 requests per windowMs
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req, res) => Boolean(apiKeyOf(res)),
+  handler: onRateLimited
+})
+
+const keyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req, res) => apiKeyOf(res)?.rateLimitPerMinute ?? 0,
+  keyGenerator: (req, res) => apiKeyOf(res)?.id ?? '',
+  message: 'Too many requests for this API key, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req, res) => !apiKeyOf(res),
+  handler: onRateLimited
 })
 
-app.use('/api/', limiter)
+// Authentication: API keys on every /api/ route except the health check; admin routes use ADMIN_TOKEN
+const authenticate = requireApiKey(apiKeys)
+const authenticateApi: express.RequestHandler = (req, res, next) => {
+  if (!AUTH_REQUIRED || req.path === '/health' || req.path.startsWith('/admin/')) return next()
+  authenticate(req, res, next)
+}
+
+app.use('/api/', ipLimiter, authenticateApi, keyLimiter)
 
 // Body parsing
 app.use(express.json({ limit: '10mb' }))
+app.use(express.text({ type: 'text/csv', limit: '1mb' }))
 
 // Validation schemas
 const suggestionSchema = z.object({
   name: z.string().min(2).max(100),
-  condition: z.enum(['Like New', 'Good', 'Fair']),
-  notes: z.string().max(500).optional()
+  // Any grade ID, label or alias of the configured scheme, normalized to the grade ID
+  condition: z.string().trim()
+    .refine(condition => findGrade(condition, gradingScheme), {
+      message: `Condition must be one of: ${gradingScheme.grades.map(grade => grade.id).join(', ')}`
+    })
+    .transform(condition => findGrade(condition, gradingScheme)?.id ?? condition),
+  // Multipart forms and CSV rows send the checklist as one comma- or semicolon-separated value
+  defects: z.preprocess(
+    value => typeof value === 'string' ? value.split(/[,;]/).map(defect => defect.trim()).filter(Boolean) : value,
+    z.array(z.enum(DEFECT_IDS)).max(DEFECT_IDS.length)
+  ).optional(),
+  notes: z.string().max(500).optional(),
+  profile: z.enum(LISTING_PROFILE_IDS).optional(),
+  locale: z.enum(SUPPORTED_LOCALES).optional()
 })
 
+const priceEstimateSchema = suggestionSchema.extend({
+  category: z.string().max(300).optional()
+})
+
+const regenerationSchema = z.object({
+  input: suggestionSchema,
+  field: z.enum(REGENERABLE_FIELDS),
+  current: z.object({
+    title: z.string().max(200).optional(),
+    marketingText: z.string().min(1).max(5000),
+    category: z.string().refine(category => taxonomy.categories.includes(category), { message: 'Unknown category' })
+  }),
+  instruction: z.string().trim().max(MAX_INSTRUCTION_LENGTH).optional(),
+  listingId: z.string().max(100).optional()
+})
+
+// Photo uploads: /api/suggest and /api/suggest/stream also accept multipart/form-data with the item
+// fields plus up to MAX_IMAGES files under `images`. JSON requests pass through untouched.
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { files: MAX_IMAGES, fileSize: MAX_IMAGE_BYTES },
+  fileFilter: (req, file, cb) => {
+    if (IMAGE_TYPES.includes(file.mimetype)) return cb(null, true)
+    cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname))
+  }
+})
+
+const acceptImages: express.RequestHandler = (req, res, next) => {
+  upload.array('images', MAX_IMAGES)(req, res, (error: unknown) => {
+    if (!error) return next()
+
+    if (error instanceof multer.MulterError) {
+      switch (error.code) {
+        case 'LIMIT_FILE_SIZE':
+          return sendError(res, 413, {
+            error: `Images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024}MB`,
+            code: 'IMAGE_TOO_LARGE'
+          })
+        case 'LIMIT_FILE_COUNT':
+          return sendError(res, 400, {
+            error: `At most ${MAX_IMAGES} images are allowed`,
+            code: 'TOO_MANY_IMAGES'
+          })
+        case 'LIMIT_UNEXPECTED_FILE':
+          return sendError(res, 400, {
+            error: `Upload up to ${MAX_IMAGES} JPEG, PNG or WebP files in the "images" field`,
+            code: 'INVALID_IMAGE'
+          })
+      }
+    }
+    next(error)
+  })
+}
+
+function uploadedImages(req: express.Request): ImageInput[] {
+  const files = Array.isArray(req.files) ? req.files : []
+  return files.map(file => ({ data: file.buffer, mimeType: file.mimetype, filename: file.originalname }))
+}
+
+// Counts `units` suggestions against the API key's daily quota, answering 429 once it is used up.
+// Requests without a key (authentication off) are not metered.
+function withinQuota(res: express.Response, units = 1): boolean {
+  const key = apiKeyOf(res)
+  if (!key) return true
+
+  if (!quotas.consume(key.id, key.dailyQuota, units)) {
+    sendRejection(res, 429, {
+      error: `Daily quota of ${key.dailyQuota} suggestions exceeded for this API key`,
+      code: 'DAILY_QUOTA_EXCEEDED'
+    })
+    return false
+  }
+  res.setHeader('X-Quota-Remaining', String(key.dailyQuota - quotas.used(key.id)))
+  return true
+}
+
+// Saves a generated suggestion as a listing owned by the caller's API key and returns the result with its
+// listingId. A cache hit returns the unmodified listing saved for the cached result, and a regeneration
+// replaces the result of the listing it was made from. A failing store is logged and leaves the result as it is.
+function saveListing(
+  res: express.Response,
+  input: FormInput,
+  outcome: SuggestionOutcome,
+  listingId?: string
+): SuggestionResult {
+  if (!listings) return outcome.result
+
+  try {
+    const owner = apiKeyOf(res)?.id
+    const regenerated = listingId ? listings.update(listingId, { input, result: outcome.result }, owner) : undefined
+    const listing = regenerated ?? listings.saveGenerated({
+      input,
+      result: outcome.result,
+      provider: outcome.provider.name,
+      model: outcome.provider.model,
+      promptVersion: outcome.result.promptVersion,
+      owner,
+      cacheKey: outcome.cacheKey
+    }, outcome.cacheStatus === 'HIT')
+    return { ...outcome.result, listingId: listing.id }
+  } catch (error) {
+    requestLogger(res).error('Saving listing failed', { error })
+    return outcome.result
+  }
+}
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({
@@ -47,140 +234,479 @@ app.get('/api/health', (req, res) => {
   })
 })
 
+// Prometheus scrape endpoint (see monitoring/prometheus.yml); outside /api/ so scrapes are not rate limited
+app.get('/metrics', async (req, res) => {
+  res.setHeader('Content-Type', registry.contentType)
+  res.send(await registry.metrics())
+})
+
+// Category taxonomy shared by the server and the web app
+app.get('/api/categories', (req, res) => {
+  res.json({
+    source: taxonomy.source,
+    root: taxonomy.root,
+    count: taxonomy.categories.length,
+    categories: taxonomy.categories,
+    tree: categoryTree()
+  })
+})
+
+// Condition grades accepted by /api/suggest, best first, with the defect checklist
+app.get('/api/grading', (req, res) => {
+  res.json({ ...gradingScheme, defects: DEFECTS })
+})
+
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
+  dailyQuota: z.number().int().min(1).max(1000000).optional()
+})
+
+// Admin: list, issue and revoke API keys. A new key is only returned once, in the POST response.
+app.get('/api/admin/keys', requireAdmin(), (req, res) => {
+  res.json({ keys: apiKeys.list().map(record => describeKey(record, quotas)) })
+})
+
+app.post('/api/admin/keys', requireAdmin(), (req, res) => {
+  const validation = apiKeySchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  const { name, ...limits } = validation.data
+  const { key, record } = apiKeys.issue(name, limits)
+  requestLogger(res).info('API key issued', { keyId: record.id, name })
+  res.status(201).json({ key, ...describeKey(record) })
+})
+
+app.delete('/api/admin/keys/:id', requireAdmin(), (req, res) => {
+  const record = apiKeys.revoke(req.params.id)
+  if (!record) {
+    return sendError(res, 404, {
+      error: 'API key not found',
+      code: 'KEY_NOT_FOUND'
+    })
+  }
+
+  requestLogger(res).info('API key revoked', { keyId: record.id })
+  res.json(describeKey(record, quotas))
+})
+
+// Offline classification: picks a category for an item without calling the LLM provider
+app.post('/api/classify', (req, res) => {
+  const validation = suggestionSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  const { name, notes } = validation.data
+  const candidates = rankCategories(name, taxonomy.categories, { context: notes, index: taxonomy.index })
+  res.json({
+    ...categoryDetails(candidates[0].category),
+    categoryCandidates: candidates
+  })
+})
+
+// Resale price range from local comparable sales; classifies the item offline when no category is given
+app.post('/api/estimate-price', (req, res) => {
+  const validation = priceEstimateSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  const { category, ...input } = validation.data
+  const [best] = category
+    ? rankCategories(category, taxonomy.categories, { limit: 1 })
+    : rankCategories(input.name, taxonomy.categories, { context: input.notes, limit: 1 })
+
+  const priceRange = estimatePrice(input, best.category)
+  if (!priceRange) {
+    return sendError(res, 404, {
+      error: 'No comparable sales found for this category',
+      code: 'NO_COMPARABLES'
+    })
+  }
+
+  res.json({
+    ...categoryDetails(best.category),
+    priceRange
+  })
+})
+
+// Clients can skip the suggestion cache with `X-Cache-Bypass: true` or `Cache-Control: no-cache`
+function wantsCacheBypass(req: express.Request): boolean {
+  return req.get('X-Cache-Bypass') === 'true' || /no-cache/i.test(req.get('Cache-Control') ?? '')
+}
+
 // Main suggestion endpoint
-app.post('/api/suggest', async (req, res) => {
+app.post('/api/suggest', acceptImages, async (req, res) => {
+  // Validate input
+  const validation = suggestionSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  if (!withinQuota(res)) return
+
   try {
-    // Validate input
-    const validation = suggestionSchema.safeParse(req.body)
+    const outcome = await getSuggestion(validation.data, cache, {
+      bypass: wantsCacheBypass(req),
+      images: uploadedImages(req),
+      log: requestLogger(res)
+    })
+    res.setHeader('X-Cache', outcome.cacheStatus)
+    if (outcome.result.promptVersion) res.setHeader('X-Prompt-Version', outcome.result.promptVersion)
+    res.json(saveListing(res, validation.data, outcome))
+  } catch (error) {
+    requestLogger(res).error('Suggestion generation failed', { error })
+    const { status, ...body } = toErrorResponse(error)
+    sendError(res, status, body)
+  }
+})
+
+// Streaming suggestion endpoint (Server-Sent Events): `token` events carry marketing text as it is
+// generated, followed by a single `done` event with the normalized result or an `error` event
+app.post('/api/suggest/stream', acceptImages, async (req, res) => {
+  const validation = suggestionSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  if (!withinQuota(res)) return
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+
+  let closed = false
+  res.on('close', () => { closed = true })
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  try {
+    const outcome = await getSuggestion(validation.data, cache, {
+      bypass: wantsCacheBypass(req),
+      images: uploadedImages(req),
+      log: requestLogger(res),
+      onToken: text => {
+        if (!closed) send('token', { text })
+      }
+    })
+    const result = saveListing(res, validation.data, outcome)
+    if (closed) return
+    send('done', { ...result, cache: outcome.cacheStatus })
+  } catch (error) {
+    requestLogger(res).error('Suggestion streaming failed', { error })
+    send('error', { ...toErrorResponse(error), requestId: res.locals.requestId })
+  }
+
+  res.end()
+})
+
+// Regenerates the marketing text or the category of a suggestion, keeping the other field as it is
+app.post('/api/suggest/regenerate', async (req, res) => {
+  const validation = regenerationSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  if (!withinQuota(res)) return
+
+  try {
+    const { input, listingId, ...request } = validation.data
+    const provider = resolveProvider()
+    const result = await regenerateSuggestion(input, request, provider)
+    res.json(saveListing(res, input, {
+      result,
+      cacheStatus: 'BYPASS',
+      provider: { name: provider.name, model: provider.model }
+    }, listingId))
+  } catch (error) {
+    requestLogger(res).error('Suggestion regeneration failed', { error })
+    const { status, ...body } = toErrorResponse(error)
+    sendError(res, status, body)
+  }
+})
+
+// Batch suggestion endpoint: accepts a JSON array (or { items }) or a CSV body with a header row
+app.post('/api/suggest/batch', async (req, res) => {
+  let rows: unknown[]
+  try {
+    rows = typeof req.body === 'string'
+      ? parseCsv(req.body)
+      : Array.isArray(req.body) ? req.body : req.body?.items
+  } catch (error) {
+    return sendError(res, 400, {
+      error: error instanceof Error ? error.message : 'Invalid CSV body',
+      code: 'INVALID_INPUT'
+    })
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return sendError(res, 400, {
+      error: 'Expected a non-empty array of items',
+      code: 'INVALID_INPUT'
+    })
+  }
+
+  if (rows.length > BATCH_MAX_ITEMS) {
+    return sendError(res, 413, {
+      error: `Batch exceeds the limit of ${BATCH_MAX_ITEMS} items`,
+      code: 'BATCH_TOO_LARGE'
+    })
+  }
+
+  // Rows are validated up front so only the ones that get generated count against the quota
+  const validations = rows.map(row => suggestionSchema.safeParse(row))
+  if (!withinQuota(res, validations.filter(validation => validation.success).length)) return
+
+  const results = await mapWithConcurrency(validations, BATCH_CONCURRENCY, async (validation, index): Promise<BatchItemResult> => {
     if (!validation.success) {
-      return res.status(400).json({
+      return {
+        index,
+        ok: false,
         error: 'Invalid input',
+        code: 'INVALID_INPUT',
         details: validation.error.issues
-      })
+      }
     }
 
-    const { name, condition, notes } = validation.data
-
-    // Check API key
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-      return res.status(500).json({
-        error: 'AI service not configured',
-        code: 'SERVICE_UNAVAILABLE'
+    try {
+      const outcome = await getSuggestion(validation.data, cache, {
+        bypass: wantsCacheBypass(req),
+        log: requestLogger(res)
       })
+      return { index, ok: true, result: saveListing(res, validation.data, outcome) }
+    } catch (error) {
+      requestLogger(res).error('Batch item generation failed', { error, index })
+      const { error: message, code } = toErrorResponse(error)
+      return { index, ok: false, error: message, code }
     }
+  })
 
-    // Generate suggestions using Gemini
-    const genAI = new GoogleGenerativeAI(apiKey)
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' })
-
-    const prompt = [
-      'You are a marketplace listing assistant for second-hand electronics.',
-      'Tasks:',
-      '1) Write a concise, compelling marketing description (max 80 words).',
-      '2) Pick the best category from the provided list. Return JSON with keys marketingText and category.',
-      `Allowed categories: ${CATEGORIES.join(' | ')}`,
-      `Item: ${name}`,
-      `Condition: ${condition}`,
-      `Notes: ${notes || ''}`,
-      'Return JSON only.'
-    ].join('\n')
-
-    const result = await model.generateContent(prompt)
-    const text = result.response.text().trim()
-
-    if (!text) {
-      throw new Error('AI model returned empty response')
+  const succeeded = results.filter(r => r.ok).length
+  res.json({
+    results,
+    summary: {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded
     }
+  })
+})
 
-    // Parse AI response
-    const parsed = safeParseJson(text)
-    if (!parsed || typeof parsed.marketingText !== 'string' || typeof parsed.category !== 'string') {
-      throw new Error('Failed to parse AI response')
-    }
+const listingQuerySchema = z.object({
+  q: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+})
+
+const newListingSchema = z.object({
+  input: suggestionSchema,
+  result: z.looseObject({
+    marketingText: z.string().min(1),
+    category: z.string().min(1),
+    promptVersion: z.string().max(50).optional()
+  }),
+  provider: z.string().min(1).max(50),
+  model: z.string().min(1).max(100)
+})
 
-    // Normalize category
-    const normalizedCategory = chooseCategory(parsed.category)
+// Editable result fields; a changed category must come from the taxonomy and replaces the stored path and ID
+const listingUpdateSchema = z.object({
+  input: suggestionSchema.partial().optional(),
+  result: z.object({
+    title: z.string().max(200),
+    marketingText: z.string().min(1).max(5000),
+    category: z.string().refine(category => taxonomy.categories.includes(category), { message: 'Unknown category' })
+  }).partial().optional()
+})
 
-    res.json({
-      marketingText: parsed.marketingText,
-      category: normalizedCategory
+// The listings store, or undefined after answering 503 when it is disabled (LISTINGS_STORE=off)
+function listingStore(res: express.Response): ListingStore | undefined {
+  if (!listings) {
+    sendError(res, 503, {
+      error: 'The listings store is disabled',
+      code: 'LISTINGS_DISABLED'
     })
+    return undefined
+  }
+  return listings
+}
 
-  } catch (error) {
-    console.error('Suggestion generation error:', error)
-    
-    if (error instanceof Error) {
-      if (error.message.includes('API_KEY_INVALID')) {
-        return res.status(500).json({
-          error: 'AI service configuration error',
-          code: 'SERVICE_CONFIG_ERROR'
-        })
-      }
-      
-      if (error.message.includes('QUOTA_EXCEEDED')) {
-        return res.status(429).json({
-          error: 'AI service quota exceeded',
-          code: 'QUOTA_EXCEEDED'
-        })
-      }
-    }
+const listingNotFound = (res: express.Response) => sendError(res, 404, {
+  error: 'Listing not found',
+  code: 'LISTING_NOT_FOUND'
+})
+
+// Saved listings, newest first. With API keys each key only sees the listings it created; without them
+// only the listings that have no owner.
+app.get('/api/listings', (req, res) => {
+  const store = listingStore(res)
+  if (!store) return
 
-    res.status(500).json({
-      error: 'Failed to generate suggestions',
-      code: 'INTERNAL_ERROR'
+  const validation = listingQuerySchema.safeParse(req.query)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid query',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
     })
   }
+
+  const { q, limit, offset } = validation.data
+  const page = store.list({ q, limit, offset, owner: apiKeyOf(res)?.id })
+  res.json({ ...page, limit, offset })
+})
+
+app.get('/api/listings/:id', (req, res) => {
+  const store = listingStore(res)
+  if (!store) return
+
+  const listing = store.get(req.params.id, apiKeyOf(res)?.id)
+  if (!listing) return listingNotFound(res)
+  res.json(listing)
 })
 
-// Category selection logic
-function chooseCategory(candidate: string): string {
-  if (!candidate) return CATEGORIES[0]
-  const lower = candidate.toLowerCase()
-  
-  // Find the most specific (longest) matching category
-  const matches = CATEGORIES.filter(c => lower.includes(c.toLowerCase()))
-  if (matches.length > 0) {
-    return matches.reduce((longest, current) => 
-      current.length > longest.length ? current : longest
-    )
+// Saves a suggestion generated elsewhere, e.g. by the web app's offline provider
+app.post('/api/listings', (req, res) => {
+  const store = listingStore(res)
+  if (!store) return
+
+  const validation = newListingSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
   }
-  
-  // Fallback to Jaccard similarity
-  const best = CATEGORIES
-    .map(c => ({ c, score: jaccard(lower, c.toLowerCase()) }))
-    .sort((a, b) => b.score - a.score)[0]
-  return best?.c ?? CATEGORIES[0]
-}
 
-function jaccard(a: string, b: string): number {
-  const sa = new Set(a.split(/[^a-z0-9]+/i).filter(Boolean))
-  const sb = new Set(b.split(/[^a-z0-9]+/i).filter(Boolean))
-  const intersection = new Set([...sa].filter(x => sb.has(x)))
-  const union = new Set([...sa, ...sb])
-  return union.size === 0 ? 0 : intersection.size / union.size
-}
+  const { input, result, provider, model } = validation.data
+  const listing = store.create({
+    input,
+    result: { ...result, listingId: undefined } as SuggestionResult,
+    provider,
+    model,
+    promptVersion: result.promptVersion,
+    owner: apiKeyOf(res)?.id
+  })
+  res.status(201).json(listing)
+})
 
-function safeParseJson(text: string): Record<string, unknown> | null {
-  try {
-    const trimmed = text
-      .replace(/^```json\n?/i, '')
-      .replace(/^```\n?/i, '')
-      .replace(/```$/i, '')
-      .trim()
-    
-    if (!trimmed) return null
-    
-    return JSON.parse(trimmed)
-  } catch {
-    return null
+app.patch('/api/listings/:id', (req, res) => {
+  const store = listingStore(res)
+  if (!store) return
+
+  const validation = listingUpdateSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
   }
-}
+
+  const { input, result } = validation.data
+  const listing = store.update(req.params.id, {
+    input,
+    result: result && {
+      ...result,
+      ...(result.category && { categoryId: undefined, localizedBreadcrumbs: undefined, ...categoryDetails(result.category) })
+    }
+  }, apiKeyOf(res)?.id)
+  if (!listing) return listingNotFound(res)
+  res.json(listing)
+})
+
+app.delete('/api/listings/:id', (req, res) => {
+  const store = listingStore(res)
+  if (!store) return
+
+  if (!store.delete(req.params.id, apiKeyOf(res)?.id)) return listingNotFound(res)
+  res.status(204).end()
+})
+
+const feedbackSchema = z.object({
+  input: suggestionSchema,
+  result: z.looseObject({
+    title: z.string().optional(),
+    marketingText: z.string().min(1),
+    category: z.string().min(1),
+    listingId: z.string().optional()
+  }),
+  rating: z.enum(['up', 'down']).optional(),
+  correctedCategory: z.string()
+    .refine(category => taxonomy.categories.includes(category), { message: 'Unknown category' })
+    .optional(),
+  comment: z.string().trim().max(1000).optional()
+}).refine(
+  ({ rating, correctedCategory, comment }) => rating || correctedCategory || comment,
+  { message: 'Provide a rating, a corrected category or a comment' }
+)
+
+// Thumbs up/down, category corrections and comments on a suggestion, stored with the input and result
+app.post('/api/feedback', (req, res) => {
+  const validation = feedbackSchema.safeParse(req.body)
+  if (!validation.success) {
+    return sendError(res, 400, {
+      error: 'Invalid input',
+      code: 'INVALID_INPUT',
+      details: validation.error.issues
+    })
+  }
+
+  const { result, ...rest } = validation.data
+  const record = feedback.add({ ...rest, result: result as SuggestionResult, owner: apiKeyOf(res)?.id })
+  feedbackSubmissions.inc({ rating: record.rating ?? 'none', corrected: String(Boolean(record.correctedCategory)) })
+  res.status(201).json({ id: record.id, createdAt: record.createdAt })
+})
+
+// Admin: collected feedback as a labelled dataset, one JSON object per line (oldest first, `since` filters by date)
+app.get('/api/admin/feedback/export', requireAdmin(), (req, res) => {
+  const since = typeof req.query.since === 'string' && !Number.isNaN(Date.parse(req.query.since))
+    ? new Date(req.query.since).toISOString()
+    : undefined
+
+  res.setHeader('Content-Type', 'application/x-ndjson')
+  res.setHeader('Content-Disposition', `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.jsonl"`)
+  for (const record of feedback.entries(since)) {
+    res.write(`${JSON.stringify(toDatasetRecord(record))}\n`)
+  }
+  res.end()
+})
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Unhandled error:', err)
-  res.status(500).json({
+  requestLogger(res).error('Unhandled error', { error: err })
+  sendError(res, 500, {
     error: 'Internal server error',
     code: 'INTERNAL_ERROR'
   })
@@ -188,7 +714,7 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 // 404 handler
 app.use('*', (req, res) => {
-  res.status(404).json({
+  sendError(res, 404, {
     error: 'Endpoint not found',
     code: 'NOT_FOUND'
   })
@@ -196,9 +722,12 @@ app.use('*', (req, res) => {
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`)
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`)
-  console.log(`🎯 Suggestions: http://localhost:${PORT}/api/suggest`)
+  logger.info('Server running', {
+    port: PORT,
+    health: `http://localhost:${PORT}/api/health`,
+    suggestions: `http://localhost:${PORT}/api/suggest`,
+    metrics: `http://localhost:${PORT}/metrics`
+  })
 })
 
 export default app
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { ListingStore } from './listings'
+import type { NewListing } from './listings'
+
+const listing = (name: string, owner?: string): NewListing => ({
+  input: { name, condition: 'B' },
+  result: { title: `${name} - Good`, marketingText: `Used ${name}`, category: 'Electronics > Communications > Telephony > Mobile Phones' },
+  provider: 'local',
+  model: 'local-template',
+  promptVersion: 'v7',
+  owner
+})
+
+describe('ListingStore', () => {
+  it('saves, edits and deletes listings', () => {
+    const store = new ListingStore(':memory:')
+    const created = store.create(listing('iPhone 12'))
+
+    expect(store.get(created.id)).toEqual(created)
+    expect(created).toMatchObject({ input: { name: 'iPhone 12' }, provider: 'local', promptVersion: 'v7' })
+
+    const updated = store.update(created.id, { result: { title: 'iPhone 12 64GB' }, input: { notes: 'Boxed' } })
+    expect(updated?.result).toMatchObject({ title: 'iPhone 12 64GB', marketingText: 'Used iPhone 12' })
+    expect(updated?.input).toEqual({ name: 'iPhone 12', condition: 'B', notes: 'Boxed' })
+
+    expect(store.delete(created.id)).toBe(true)
+    expect(store.get(created.id)).toBeUndefined()
+    expect(store.update(created.id, { input: { notes: 'gone' } })).toBeUndefined()
+  })
+
+  it('searches and pages newest first, scoped to the owner', () => {
+    const store = new ListingStore(':memory:')
+    for (const name of ['iPhone 11', 'iPhone 12', 'Galaxy S21', 'iPhone 13']) store.create(listing(name, 'key-a'))
+    store.create(listing('iPhone 14', 'key-b'))
+
+    const page = store.list({ q: 'iphone', limit: 2, owner: 'key-a' })
+    expect(page.total).toBe(3)
+    expect(page.listings.map(l => l.input.name)).toEqual(['iPhone 13', 'iPhone 12'])
+    expect(store.list({ q: 'iphone', limit: 2, offset: 2, owner: 'key-a' }).listings.map(l => l.input.name)).toEqual(['iPhone 11'])
+
+    expect(store.list({ q: '100%', owner: 'key-a' }).total).toBe(0)
+    expect(store.list({ owner: 'key-b' }).total).toBe(1)
+
+    const other = store.list({ owner: 'key-b' }).listings[0]
+    expect(store.get(other.id, 'key-a')).toBeUndefined()
+    expect(store.delete(other.id, 'key-a')).toBe(false)
+  })
+
+  it('keeps listings with an owner away from unauthenticated callers', () => {
+    const store = new ListingStore(':memory:')
+    const owned = store.create(listing('iPhone 12', 'key-a'))
+    const open = store.create(listing('Pixel 7'))
+
+    expect(store.list().listings.map(l => l.id)).toEqual([open.id])
+    expect(store.get(owned.id)).toBeUndefined()
+    expect(store.update(owned.id, { input: { notes: 'mine' } })).toBeUndefined()
+    expect(store.delete(owned.id)).toBe(false)
+    expect(store.get(open.id, 'key-a')).toBeUndefined()
+    expect(store.get(owned.id, 'key-a')).toEqual(owned)
+  })
+
+  it('returns the listing saved for a cache key on a cache hit', () => {
+    const store = new ListingStore(':memory:')
+    const first = store.saveGenerated({ ...listing('iPhone 12', 'key-a'), cacheKey: 'suggestion:abc' }, false)
+
+    expect(store.saveGenerated({ ...listing('iPhone 12', 'key-a'), cacheKey: 'suggestion:abc' }, true).id).toBe(first.id)
+    expect(store.saveGenerated({ ...listing('iPhone 12', 'key-b'), cacheKey: 'suggestion:abc' }, true).id).not.toBe(first.id)
+    expect(store.list({ owner: 'key-a' }).total).toBe(1)
+  })
+
+  it('saves a new generation for a cache key that was evicted', () => {
+    const store = new ListingStore(':memory:')
+    const first = store.saveGenerated({ ...listing('iPhone 12', 'key-a'), cacheKey: 'suggestion:abc' }, false)
+    const fresh = listing('iPhone 12', 'key-a')
+    fresh.result = { ...fresh.result, marketingText: 'Generated again' }
+
+    const second = store.saveGenerated({ ...fresh, cacheKey: 'suggestion:abc' }, false)
+    expect(second.id).not.toBe(first.id)
+    expect(second.result.marketingText).toBe('Generated again')
+    expect(store.saveGenerated({ ...fresh, cacheKey: 'suggestion:abc' }, true).id).toBe(second.id)
+  })
+
+  it('does not return a regenerated or edited listing for a cache hit', () => {
+    const store = new ListingStore(':memory:')
+    const cached = { ...listing('iPhone 12', 'key-a'), cacheKey: 'suggestion:abc' }
+    const first = store.saveGenerated(cached, false)
+    store.update(first.id, { result: { marketingText: 'Regenerated' } }, 'key-a')
+
+    const hit = store.saveGenerated(cached, true)
+    expect(hit.id).not.toBe(first.id)
+    expect(hit.result.marketingText).toBe('Used iPhone 12')
+    expect(store.get(first.id, 'key-a')?.result.marketingText).toBe('Regenerated')
+  })
+})
@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto'
+import type Database from 'better-sqlite3'
+import type { FormInput, Listing, SuggestionResult } from '../shared/types'
+import { openDatabase } from './database'
+import { dataFile } from './paths'
+
+export type NewListing = Omit<Listing, 'id' | 'createdAt' | 'updatedAt'> & {
+  // API key the listing belongs to; listings without one are only visible to unauthenticated callers
+  owner?: string
+  // Suggestion cache key of a generated listing, so a cache hit returns the listing saved for it
+  // (see saveGenerated) while the listing is unmodified
+  cacheKey?: string
+}
+
+export interface ListingQuery {
+  // Matched against the item name, title and category
+  q?: string
+  limit?: number
+  offset?: number
+  owner?: string
+}
+
+type ListingRow = {
+  id: string
+  input: string
+  result: string
+  provider: string
+  model: string
+  prompt_version: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Name, title and category are copied out of the JSON columns so they can be searched
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS listings (
+    id TEXT PRIMARY KEY,
+    owner TEXT,
+    cache_key TEXT,
+    name TEXT NOT NULL,
+    title TEXT,
+    category TEXT NOT NULL,
+    input TEXT NOT NULL,
+    result TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_version TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS listings_owner_created ON listings (owner, created_at);
+  CREATE INDEX IF NOT EXISTS listings_owner_cache_key ON listings (owner, cache_key);
+`
+
+// Matches the owner's listings; without an owner only the listings that have none
+const OWNED = 'owner IS @owner'
+
+const likePattern = (q: string) => `%${q.replace(/[\\%_]/g, '\\$&')}%`
+
+function toListing(row: ListingRow): Listing {
+  return {
+    id: row.id,
+    input: JSON.parse(row.input),
+    result: JSON.parse(row.result),
+    provider: row.provider,
+    model: row.model,
+    ...(row.prompt_version && { promptVersion: row.prompt_version }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+// Saved suggestions in SQLite (LISTINGS_DB, server/data/listings.db by default; ":memory:" keeps them in memory)
+export class ListingStore {
+  private db: Database.Database
+
+  constructor(file = process.env.LISTINGS_DB || dataFile('listings.db')) {
+    this.db = openDatabase(file, SCHEMA)
+  }
+
+  // A cache key moves to the new listing, since the cache now holds its result
+  create(listing: NewListing): Listing {
+    if (listing.cacheKey) {
+      this.db.prepare(`UPDATE listings SET cache_key = NULL WHERE cache_key = @cacheKey AND ${OWNED}`)
+        .run({ cacheKey: listing.cacheKey, owner: listing.owner ?? null })
+    }
+
+    const now = new Date().toISOString()
+    const id = randomUUID()
+    this.db.prepare(`
+      INSERT INTO listings (id, owner, cache_key, name, title, category, input, result, provider, model, prompt_version, created_at, updated_at)
+      VALUES (@id, @owner, @cacheKey, @name, @title, @category, @input, @result, @provider, @model, @promptVersion, @now, @now)
+    `).run({
+      id,
+      owner: listing.owner ?? null,
+      cacheKey: listing.cacheKey ?? null,
+      ...this.columns(listing.input, listing.result),
+      provider: listing.provider,
+      model: listing.model,
+      promptVersion: listing.promptVersion ?? null,
+      now
+    })
+    return this.get(id, listing.owner) as Listing
+  }
+
+  // Saves a generated suggestion. A cache hit returns the listing saved for the cached result while that is
+  // unmodified; a new generation is always added, even when an older listing has the same cache key.
+  saveGenerated(listing: NewListing, cacheHit: boolean): Listing {
+    if (cacheHit && listing.cacheKey) {
+      const row = this.db.prepare(`SELECT * FROM listings WHERE cache_key = @cacheKey AND ${OWNED}`)
+        .get({ cacheKey: listing.cacheKey, owner: listing.owner ?? null }) as ListingRow | undefined
+      if (row) return toListing(row)
+    }
+    return this.create(listing)
+  }
+
+  get(id: string, owner?: string): Listing | undefined {
+    const row = this.db.prepare(`SELECT * FROM listings WHERE id = @id AND ${OWNED}`)
+      .get({ id, owner: owner ?? null }) as ListingRow | undefined
+    return row && toListing(row)
+  }
+
+  // Newest first
+  list({ q, limit = 20, offset = 0, owner }: ListingQuery = {}): { listings: Listing[]; total: number } {
+    const search = q?.trim() ? likePattern(q.trim()) : null
+    const where = `${OWNED} AND (@search IS NULL OR name LIKE @search ESCAPE '\\' OR title LIKE @search ESCAPE '\\' OR category LIKE @search ESCAPE '\\')`
+    const params = { owner: owner ?? null, search }
+
+    const rows = this.db.prepare(`
+      SELECT * FROM listings WHERE ${where} ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset
+    `).all({ ...params, limit, offset }) as ListingRow[]
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM listings WHERE ${where}`).get(params) as { total: number }
+
+    return { listings: rows.map(toListing), total }
+  }
+
+  // Shallow-merges the changes into the stored input and result. The listing no longer holds the cached
+  // result, so its cache key is cleared.
+  update(
+    id: string,
+    changes: { input?: Partial<FormInput>; result?: Partial<SuggestionResult> },
+    owner?: string
+  ): Listing | undefined {
+    const listing = this.get(id, owner)
+    if (!listing) return undefined
+
+    const input = { ...listing.input, ...changes.input }
+    const result = { ...listing.result, ...changes.result }
+    this.db.prepare(`
+      UPDATE listings SET name = @name, title = @title, category = @category, input = @input, result = @result,
+        cache_key = NULL, updated_at = @now
+      WHERE id = @id
+    `).run({ id, ...this.columns(input, result), now: new Date().toISOString() })
+    return this.get(id, owner)
+  }
+
+  delete(id: string, owner?: string): boolean {
+    return this.db.prepare(`DELETE FROM listings WHERE id = @id AND ${OWNED}`).run({ id, owner: owner ?? null }).changes > 0
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private columns(input: FormInput, result: SuggestionResult) {
+    return {
+      name: input.name,
+      title: result.title ?? null,
+      category: result.category,
+      input: JSON.stringify(input),
+      result: JSON.stringify(result)
+    }
+  }
+}
+
+// LISTINGS_STORE=off stops saving suggestions; SQLite is used otherwise
+export function createListingStore(): ListingStore | null {
+  return process.env.LISTINGS_STORE === 'off' ? null : new ListingStore()
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { createLogger } from './logger'
+
+function capture(minLevel: 'debug' | 'info' | 'warn' | 'error' = 'info') {
+  const lines: Array<Record<string, unknown>> = []
+  const log = createLogger({}, line => lines.push(JSON.parse(line)), minLevel)
+  return { log, lines }
+}
+
+describe('logger', () => {
+  it('writes one JSON object per entry with the bound fields', () => {
+    const { log, lines } = capture()
+    log.child({ requestId: 'abc-123' }).info('Request completed', { status: 200 })
+    expect(lines).toEqual([
+      { time: expect.any(String), level: 'info', msg: 'Request completed', requestId: 'abc-123', status: 200 }
+    ])
+  })
+
+  it('serializes errors and skips entries below the minimum level', () => {
+    const { log, lines } = capture('warn')
+    log.info('ignored')
+    log.error('Suggestion generation failed', { error: new Error('QUOTA_EXCEEDED') })
+    expect(lines).toHaveLength(1)
+    expect(lines[0].error).toMatchObject({ name: 'Error', message: 'QUOTA_EXCEEDED', stack: expect.any(String) })
+  })
+})
@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto'
+import type { RequestHandler, Response } from 'express'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // Logger that adds `fields` to every entry, e.g. the request ID
+  child(fields: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const isLogLevel = (value?: string): value is LogLevel => Object.keys(LEVELS).includes(value ?? '')
+
+// Errors do not serialize with JSON.stringify, so they are flattened into plain objects
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...('code' in value && { code: value.code }), stack: value.stack }
+  }
+  return value
+}
+
+// One JSON object per line: {"time", "level", "msg", ...fields}. LOG_LEVEL sets the minimum level (default "info").
+export function createLogger(
+  bindings: LogFields = {},
+  write: (line: string, level: LogLevel) => void = (line, level) => {
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`)
+  },
+  minLevel: LogLevel = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info'
+): Logger {
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < LEVELS[minLevel]) return
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...bindings }
+    for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value)
+    write(JSON.stringify(entry), level)
+  }
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: fields => createLogger({ ...bindings, ...fields }, write, minLevel)
+  }
+}
+
+export const logger = createLogger()
+
+// Client- or proxy-supplied IDs are kept only when they are short and free of control characters
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+// Assigns each request an ID (reusing a valid incoming `X-Request-Id`), echoes it in the response header,
+// exposes a logger bound to it as `res.locals.log` and logs the request once the response is sent
+export const requestLogging: RequestHandler = (req, res, next) => {
+  const incoming = req.get('X-Request-Id')
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+  const log = logger.child({ requestId })
+  const started = process.hrtime.bigint()
+
+  res.locals.requestId = requestId
+  res.locals.log = log
+  res.setHeader('X-Request-Id', requestId)
+
+  res.on('finish', () => {
+    log.info('Request completed', {
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - started) / 1e5) / 10
+    })
+  })
+  next()
+}
+
+// Logger bound to the current request, or the process logger outside a request
+export function requestLogger(res: Response): Logger {
+  return (res.locals.log as Logger | undefined) ?? logger
+}
+
+// Every error body carries the request ID so a user-reported failure can be found in the logs
+export function sendError(res: Response, status: number, body: { error: string; code?: string; details?: unknown }) {
+  return res.status(status).json({ ...body, requestId: res.locals.requestId })
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { llmFailures, llmRequestDuration, observeGeneration } from './metrics'
+
+const provider = { name: 'test', model: 'test-model' }
+
+describe('observeGeneration', () => {
+  it('times successful generations', async () => {
+    await expect(observeGeneration(provider, 'generate', async () => 'ok', () => 'UNUSED')).resolves.toBe('ok')
+    const { values } = await llmRequestDuration.get()
+    const count = values.find(v =>
+      v.metricName === 'llm_request_duration_seconds_count' && v.labels.provider === 'test' && v.labels.outcome === 'success'
+    )
+    expect(count?.value).toBe(1)
+  })
+
+  it('counts failures by error code and rethrows', async () => {
+    const failing = () => Promise.reject(new Error('QUOTA_EXCEEDED'))
+    await expect(observeGeneration(provider, 'stream', failing, () => 'QUOTA_EXCEEDED')).rejects.toThrow('QUOTA_EXCEEDED')
+    const { values } = await llmFailures.get()
+    expect(values).toEqual([{ value: 1, labels: { provider: 'test', model: 'test-model', code: 'QUOTA_EXCEEDED' } }])
+  })
+
+  it('does not count guardrail rejections as failures', async () => {
+    const blocked = () => Promise.reject(new Error('OUTPUT_BLOCKED'))
+    await expect(observeGeneration(provider, 'generate', blocked, () => 'OUTPUT_BLOCKED')).rejects.toThrow('OUTPUT_BLOCKED')
+    const { values } = await llmFailures.get()
+    expect(values.map(v => v.labels.code)).not.toContain('OUTPUT_BLOCKED')
+    const durations = await llmRequestDuration.get()
+    expect(durations.values.find(v =>
+      v.metricName === 'llm_request_duration_seconds_count' && v.labels.outcome === 'blocked'
+    )?.value).toBe(1)
+  })
+})
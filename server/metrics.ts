@@ -0,0 +1,104 @@
+import type { RequestHandler } from 'express'
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client'
+import { GUARDRAIL_ERROR_CODES } from '../shared/guardrails'
+
+// Prometheus metrics served on /metrics; the process metrics come from prom-client's defaults
+export const registry = new Registry()
+collectDefaultMetrics({ register: registry })
+
+export const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [registry]
+})
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry]
+})
+
+export const llmRequestDuration = new Histogram({
+  name: 'llm_request_duration_seconds',
+  help: 'Time spent generating a suggestion with the LLM provider, including parsing its response',
+  labelNames: ['provider', 'model', 'operation', 'outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60],
+  registers: [registry]
+})
+
+export const llmFailures = new Counter({
+  name: 'llm_failures_total',
+  help: 'Failed LLM generations by error code; guardrail rejections are counted in guardrail_blocks_total instead',
+  labelNames: ['provider', 'model', 'code'] as const,
+  registers: [registry]
+})
+
+export const suggestionResults = new Counter({
+  name: 'suggestion_results_total',
+  help: 'Suggestions served by category, cache status and the prompt version that generated them',
+  labelNames: ['category', 'cache', 'prompt_version'] as const,
+  registers: [registry]
+})
+
+export const feedbackSubmissions = new Counter({
+  name: 'feedback_submissions_total',
+  help: 'Suggestion feedback by rating ("none" for comments or corrections only) and whether the category was corrected',
+  labelNames: ['rating', 'corrected'] as const,
+  registers: [registry]
+})
+
+export const guardrailBlocks = new Counter({
+  name: 'guardrail_blocks_total',
+  help: 'Suggestions blocked by the input or output guardrails, by rule',
+  labelNames: ['stage', 'rule'] as const,
+  registers: [registry]
+})
+
+export const rateLimitRejections = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests rejected by a rate limit (RATE_LIMITED) or a daily quota (DAILY_QUOTA_EXCEEDED)',
+  labelNames: ['code'] as const,
+  registers: [registry]
+})
+
+// Records one LLM generation. `errorCode` maps a failure onto the code clients see, e.g. QUOTA_EXCEEDED.
+// A guardrail rejection is a policy outcome rather than a provider failure, timed with outcome "blocked".
+export async function observeGeneration<T>(
+  provider: { name: string; model: string },
+  operation: 'generate' | 'stream' | 'regenerate',
+  run: () => Promise<T>,
+  errorCode: (error: unknown) => string
+): Promise<T> {
+  const labels = { provider: provider.name, model: provider.model, operation }
+  const end = llmRequestDuration.startTimer(labels)
+  try {
+    const result = await run()
+    end({ outcome: 'success' })
+    return result
+  } catch (error) {
+    const code = errorCode(error)
+    const blocked = Object.values(GUARDRAIL_ERROR_CODES).includes(code)
+    end({ outcome: blocked ? 'blocked' : 'error' })
+    if (!blocked) llmFailures.inc({ provider: provider.name, model: provider.model, code })
+    throw error
+  }
+}
+
+// Times every request once the response is sent. Routes are labeled by their pattern (e.g.
+// "/api/suggest") so paths with user input do not create new series.
+export const metricsMiddleware: RequestHandler = (req, res, next) => {
+  const end = httpRequestDuration.startTimer()
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status: String(res.statusCode)
+    }
+    end(labels)
+    httpRequests.inc(labels)
+  })
+  next()
+}
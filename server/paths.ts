@@ -0,0 +1,14 @@
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+
+const SERVER_DIR = dirname(fileURLToPath(import.meta.url))
+
+// Default location of a file under server/data, resolved from this module so it does not depend on the
+// working directory (the Docker image ships the directory next to the compiled server). Paths set
+// through environment variables are still resolved against the working directory.
+export function dataFile(name: string): string {
+  return join(SERVER_DIR, 'data', name)
+}
+
+// Recorded model responses (see fixtures.ts)
+export const FIXTURES_DIR = join(SERVER_DIR, 'fixtures', 'llm')
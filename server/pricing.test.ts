@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { GRADING_SCHEMES } from '../shared/grading'
+import { TaxonomyIndex } from '../shared/taxonomy'
+import { estimatePrice, mapComparables } from './pricing'
+import type { ComparableDataset } from './pricing'
+
+const PHONES = 'Electronics > Communications > Telephony > Mobile Phones'
+
+const dataset: ComparableDataset = {
+  currency: 'USD',
+  version: 'test',
+  sales: [
+    { title: 'iPhone 12 128GB', category: PHONES, condition: 'Good', price: 280, soldAt: '2026-05-01' },
+    { title: 'iPhone 12 64GB', category: PHONES, condition: 'Like New', price: 300, soldAt: '2026-06-01' },
+    { title: 'iPhone 12 128GB', category: PHONES, condition: 'Fair', price: 216, soldAt: '2026-04-01' },
+    { title: 'Galaxy S22 Ultra', category: PHONES, condition: 'Good', price: 500, soldAt: '2026-07-01' },
+    { title: 'Pixel 7', category: PHONES, condition: 'Good', price: 260, soldAt: '2026-03-01' }
+  ]
+}
+
+describe('estimatePrice', () => {
+  it('uses sales of similar items, adjusted to the condition', () => {
+    const range = estimatePrice({ name: 'iPhone 12 128GB', condition: 'Good' }, PHONES, dataset)
+    expect(range?.basis).toBe('similar_items')
+    expect(range?.comparables.map(c => c.title)).not.toContain('Galaxy S22 Ultra')
+    // Like New 300 -> 264 and Fair 216 -> 264 once adjusted to Good
+    expect(range?.comparables.map(c => c.adjustedPrice).sort()).toEqual([264, 264, 280])
+    expect(range).toMatchObject({ currency: 'USD', low: 264, median: 264, high: 272 })
+  })
+
+  it('falls back to the whole category when no sale shares a term', () => {
+    const range = estimatePrice({ name: 'OnePlus 9', condition: 'Like New' }, PHONES, dataset)
+    expect(range?.basis).toBe('category')
+    expect(range?.comparables).toHaveLength(5)
+    expect(range!.low).toBeLessThanOrEqual(range!.median)
+    expect(range!.median).toBeLessThanOrEqual(range!.high)
+  })
+
+  it('adjusts prices with the value factors of the given grading scheme', () => {
+    const scheme = {
+      ...GRADING_SCHEMES.simple,
+      grades: GRADING_SCHEMES.simple.grades.map(grade => ({ ...grade, valueFactor: grade.id === 'Good' ? 0.5 : 1 }))
+    }
+    const range = estimatePrice({ name: 'iPhone 12 128GB', condition: 'Good' }, PHONES, dataset, scheme)
+    // Like New 300 -> 150 and Fair 216 -> 108 once adjusted to Good; the Good sale stays at 280
+    expect(range?.comparables.map(c => c.adjustedPrice).sort()).toEqual([108, 150, 280])
+  })
+
+  it('returns null without comparables in the category', () => {
+    expect(estimatePrice({ name: 'Kindle', condition: 'Good' }, 'Electronics > Computers > Tablets', dataset)).toBeNull()
+  })
+})
+
+describe('mapComparables', () => {
+  it('moves sales onto the closest categories of the full taxonomy', () => {
+    const index = TaxonomyIndex.parse([
+      '222 - Electronics',
+      '262 - Electronics > Communications',
+      '1801 - Electronics > Communications > Telephony',
+      '267 - Electronics > Communications > Telephony > Mobile Phones',
+      '278 - Electronics > Computers',
+      '4745 - Electronics > Computers > Tablet Computers'
+    ].join('\n'))
+    const active = { source: 'test', root: 'Electronics', index, categories: index.leaves('Electronics').map(e => e.path), version: 'test' }
+    const mapped = mapComparables({
+      ...dataset,
+      sales: [
+        ...dataset.sales,
+        { title: 'iPad Air 4', category: 'Electronics > Computers > Tablets', condition: 'Good', price: 320, soldAt: '2026-05-01' },
+        { title: 'HP DeskJet 2755e', category: 'Electronics > Printers > Inkjet Printers', condition: 'Good', price: 40, soldAt: '2026-05-01' }
+      ]
+    }, active)
+
+    expect(mapped.sales.filter(sale => sale.category === PHONES)).toHaveLength(5)
+    expect(estimatePrice({ name: 'iPad Air 4', condition: 'Good' }, 'Electronics > Computers > Tablet Computers', mapped))
+      .toMatchObject({ median: 320 })
+    // Printers have no close match among these categories
+    expect(mapped.sales.map(sale => sale.title)).not.toContain('HP DeskJet 2755e')
+  })
+})
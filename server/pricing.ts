@@ -0,0 +1,126 @@
+import { existsSync, readFileSync } from 'fs'
+import { resolve } from 'path'
+import { findGrade } from '../shared/grading'
+import type { GradingScheme } from '../shared/grading'
+import { rankCategories } from '../shared/taxonomy'
+import type { ComparableSale, FormInput, PriceRange } from '../shared/types'
+import { gradingScheme } from './grading'
+import { logger } from './logger'
+import { dataFile } from './paths'
+import { taxonomy } from './taxonomy'
+import type { ActiveTaxonomy } from './taxonomy'
+
+export interface ComparableDataset {
+  currency: string
+  sales: ComparableSale[]
+  // Changes whenever the dataset changes; part of the suggestion cache key
+  version: string
+}
+
+// Value of a condition grade relative to the best grade of the scheme; unknown grades count as the best
+const valueFactor = (condition: string, scheme: GradingScheme) => findGrade(condition, scheme)?.valueFactor ?? 1
+
+const MAX_COMPARABLES = 8
+
+// Loads the comparable-sales dataset shipped with the server (server/data/comparable-sales.json)
+export function loadComparables(
+  file = process.env.COMPARABLES_FILE || dataFile('comparable-sales.json')
+): ComparableDataset {
+  const path = resolve(file)
+
+  if (!existsSync(path)) {
+    logger.warn('Comparable sales file not found, price estimates are disabled', { path })
+    return { currency: 'USD', sales: [], version: 'none' }
+  }
+
+  const data = JSON.parse(readFileSync(path, 'utf-8'))
+  return {
+    currency: data.currency ?? 'USD',
+    sales: Array.isArray(data.sales) ? data.sales : [],
+    version: data.lastUpdated ?? 'unknown'
+  }
+}
+
+// A dataset category is only mapped onto the full taxonomy when it resembles a category there this closely
+const MIN_MAPPING_CONFIDENCE = 0.45
+
+// The dataset is keyed on the curated subset's paths. With the full taxonomy loaded, each of its categories
+// is mapped onto the closest taxonomy category (the way a model's answer is), so estimates are found for
+// the categories suggestions actually use. Sales whose category has no close match are left out.
+export function mapComparables(dataset: ComparableDataset, active: ActiveTaxonomy = taxonomy): ComparableDataset {
+  const { index } = active
+  if (!index) return dataset
+
+  const mapped = new Map<string, string | null>()
+  for (const { category } of dataset.sales) {
+    if (mapped.has(category)) continue
+    const [best] = rankCategories(category, active.categories, { index, limit: 1 })
+    mapped.set(category, best && best.confidence >= MIN_MAPPING_CONFIDENCE ? best.category : null)
+  }
+
+  const unmapped = [...mapped].filter(([, category]) => !category).map(([category]) => category)
+  if (unmapped.length > 0) {
+    logger.warn('Comparable sales categories not found in the taxonomy, price estimates skip them', { categories: unmapped })
+  }
+
+  return {
+    ...dataset,
+    sales: dataset.sales.flatMap(sale => {
+      const category = mapped.get(sale.category)
+      return category ? [{ ...sale, category }] : []
+    })
+  }
+}
+
+export const comparables = mapComparables(loadComparables())
+
+// Model names hinge on numbers ("iPhone 12" vs "iPhone 13"), so unlike the classifier numbers are kept
+function terms(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean))
+}
+
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// Low/median/high (25th/50th/75th percentile) of comparable sales in `category`, adjusted to the
+// item's condition. Sales sharing terms with the item name are preferred over the whole category.
+export function estimatePrice(
+  input: FormInput,
+  category: string,
+  dataset: ComparableDataset = comparables,
+  scheme: GradingScheme = gradingScheme
+): PriceRange | null {
+  const name = terms(input.name)
+  const scored = dataset.sales
+    .filter(sale => sale.category === category)
+    .map(sale => ({ sale, overlap: [...terms(sale.title)].filter(term => name.has(term)).length }))
+
+  if (scored.length === 0) return null
+
+  const best = Math.max(...scored.map(s => s.overlap))
+  const selected = scored
+    .filter(s => best === 0 || s.overlap >= Math.ceil(best / 2))
+    .sort((a, b) => b.overlap - a.overlap || b.sale.soldAt.localeCompare(a.sale.soldAt))
+    .slice(0, MAX_COMPARABLES)
+    .map(({ sale }) => ({
+      ...sale,
+      adjustedPrice: Math.round(
+        sale.price * valueFactor(input.condition, scheme) / valueFactor(sale.condition, scheme)
+      )
+    }))
+
+  const prices = selected.map(s => s.adjustedPrice).sort((a, b) => a - b)
+
+  return {
+    currency: dataset.currency,
+    low: Math.round(percentile(prices, 0.25)),
+    median: Math.round(percentile(prices, 0.5)),
+    high: Math.round(percentile(prices, 0.75)),
+    basis: best > 0 ? 'similar_items' : 'category',
+    comparables: selected
+  }
+}
@@ -0,0 +1,16 @@
+import { parsePromptWeights, promptVersions, SUGGESTION_PROMPT } from '../shared/prompts'
+import type { PromptWeight } from '../shared/prompts'
+import { logger } from './logger'
+
+// PROMPT_VERSIONS splits suggestion requests between versions of the suggestion prompt for A/B tests,
+// e.g. "v7:90,v8:10". Without it every request gets the newest version.
+export function loadPromptWeights(spec = process.env.PROMPT_VERSIONS): PromptWeight[] {
+  const versions = promptVersions(SUGGESTION_PROMPT)
+  const { weights, invalid } = parsePromptWeights(spec, versions)
+  if (invalid.length > 0) {
+    logger.warn('Ignoring unknown prompt versions', { invalid, versions })
+  }
+  return weights
+}
+
+export const promptWeights = loadPromptWeights()
@@ -0,0 +1,332 @@
+import { resolveAttributes } from '../shared/attributes'
+import { gradeCondition } from '../shared/grading'
+import { checkInput, checkOutput, GUARDRAIL_ERROR_CODES } from '../shared/guardrails'
+import type { GuardrailViolation } from '../shared/guardrails'
+import { DEFAULT_LOCALE, localeWarnings, outputLocale } from '../shared/locales'
+import type { Locale } from '../shared/locales'
+import { applyListingProfile, getListingProfile } from '../shared/marketplaces'
+import { assignPromptVersion, buildSuggestionPrompt, SUGGESTION_PROMPT } from '../shared/prompts'
+import { keepCurrentFields, regenerationCategories, regenerationInstructions, rejectedCategories } from '../shared/regeneration'
+import type { RegenerationRequest } from '../shared/regeneration'
+import { rankCategories } from '../shared/taxonomy'
+import { createProvider, ProviderError, safeParseJson } from '../shared/providers'
+import type { LlmProvider } from '../shared/providers'
+import { JsonFieldStreamReader } from '../shared/streaming'
+import type { FormInput, ImageFindings, SuggestionResult, SuggestionWarning } from '../shared/types'
+import { CACHE_TTL_SECONDS, suggestionCacheKey } from './cache'
+import type { CacheBackend } from './cache'
+import { withFixtures } from './fixtures'
+import { gradingScheme } from './grading'
+import { logger } from './logger'
+import type { Logger } from './logger'
+import { guardrailBlocks, observeGeneration, suggestionResults } from './metrics'
+import { comparables, estimatePrice } from './pricing'
+import { promptWeights } from './prompts'
+import { categoryDetails, categoryLabels, taxonomy } from './taxonomy'
+import { applyImageFindings, resolveVisionProvider } from './vision'
+import type { ImageInput } from './vision'
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS'
+
+export type SuggestionOutcome = {
+  result: SuggestionResult
+  cacheStatus: CacheStatus
+  // Provider and model behind the result; a cache hit was generated by the same ones
+  provider: { name: string; model: string }
+  // Key the result is cached under, unless the cache was bypassed
+  cacheKey?: string
+}
+
+// Errors raised while generating a suggestion, mapped onto an HTTP status and error code
+export class SuggestionError extends Error {
+  public status: number
+  public code: string
+
+  constructor(message: string, status: number, code: string) {
+    super(message)
+    this.name = 'SuggestionError'
+    this.status = status
+    this.code = code
+  }
+}
+
+// Resolve the configured LLM provider, recording or replaying its responses when LLM_FIXTURES is set
+export function resolveProvider(): LlmProvider {
+  try {
+    return withFixtures(() => createProvider({
+      provider: process.env.LLM_PROVIDER,
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.LLM_MODEL,
+      fallback: process.env.LLM_FALLBACK,
+      gradingScheme
+    }))
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      throw new SuggestionError('AI service not configured', 500, 'SERVICE_UNAVAILABLE')
+    }
+    throw error
+  }
+}
+
+// Renders the suggestion prompt (shared/prompts/) with the active taxonomy and grading scheme; the newest
+// version without `version`
+export function buildPrompt(input: FormInput, version?: string, categories: string[] = taxonomy.categories): string {
+  return buildSuggestionPrompt(input, categories, gradingScheme, version)
+}
+
+// The prompt version for one request, following the PROMPT_VERSIONS experiment
+export function assignPrompt(): string {
+  return assignPromptVersion(promptWeights)
+}
+
+export function parseSuggestion(
+  raw: string,
+  input: FormInput,
+  parsed: Record<string, unknown> | null = safeParseJson(raw),
+  // Language the provider was asked to write in, which differs from input.locale after a fallback
+  locale: Locale = input.locale ?? DEFAULT_LOCALE,
+  // Categories the result may not be put in, e.g. the one a seller rejected
+  exclude: string[] = []
+): SuggestionResult {
+  if (!raw) {
+    throw new SuggestionError('AI model returned empty response', 500, 'EMPTY_RESPONSE')
+  }
+
+  // Parse AI response
+  if (!parsed || typeof parsed.marketingText !== 'string' || typeof parsed.category !== 'string') {
+    throw new SuggestionError('Failed to parse AI response', 500, 'PARSE_ERROR')
+  }
+
+  // Normalize category and rank the alternatives
+  const candidates = rankCategories(parsed.category, taxonomy.categories, {
+    context: `${input.name} ${input.notes ?? ''}`,
+    alternatives: stringArray(parsed.alternativeCategories),
+    index: taxonomy.index,
+    exclude
+  })
+
+  const category = candidates[0].category
+  const { grading, warnings: gradingWarnings } = gradeCondition(input, gradingScheme)
+  const warnings = [...localeWarnings(input.locale, locale), ...gradingWarnings]
+  const labelLocale = input.locale ?? DEFAULT_LOCALE
+
+  const listing = applyListingProfile(
+    { title: typeof parsed.title === 'string' ? parsed.title : undefined, marketingText: parsed.marketingText },
+    getListingProfile(input.profile),
+    input.name
+  )
+  guard(checkOutput(listing, input))
+
+  return {
+    ...listing,
+    ...categoryDetails(category),
+    categoryCandidates: candidates,
+    priceRange: estimatePrice(input, category) ?? undefined,
+    attributes: resolveAttributes(parsed.attributes, input),
+    ...(grading && { grading }),
+    locale,
+    // Category labels do not depend on the provider, so they follow the requested locale even after a fallback
+    ...(labelLocale !== DEFAULT_LOCALE && { localizedBreadcrumbs: categoryLabels(category, labelLocale) }),
+    ...(warnings.length > 0 && { warnings })
+  }
+}
+
+// Blocks the suggestion when a guardrail found a problem with the seller's input or the model's output
+function guard(violation: GuardrailViolation | null): void {
+  if (!violation) return
+  guardrailBlocks.inc({ stage: violation.stage, rule: violation.rule })
+  throw new SuggestionError(violation.message, 422, GUARDRAIL_ERROR_CODES[violation.stage])
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+export async function generateSuggestion(
+  input: FormInput,
+  provider: LlmProvider = resolveProvider(),
+  promptVersion: string = assignPrompt()
+): Promise<SuggestionResult> {
+  guard(checkInput(input))
+  const { name, condition, defects, notes, profile } = input
+  const locale = outputLocale(input.locale, provider.locales)
+
+  return observeGeneration(provider, 'generate', async () => {
+    const { raw, data } = await provider.generateJson({
+      prompt: buildPrompt({ ...input, locale }, promptVersion),
+      input: { name, condition, defects, notes, profile, locale },
+      categories: taxonomy.categories
+    })
+    return { ...parseSuggestion(raw, input, data, locale), promptVersion }
+  }, errorCode)
+}
+
+// Streams the marketing text through `onToken` while the model generates, then resolves with the
+// same normalized result as `generateSuggestion`. The output guard needs the whole response, so text it
+// blocks has already been streamed and is withdrawn by the error that follows.
+export async function streamSuggestion(
+  input: FormInput,
+  onToken: (text: string) => void,
+  provider: LlmProvider = resolveProvider(),
+  promptVersion: string = assignPrompt()
+): Promise<SuggestionResult> {
+  guard(checkInput(input))
+  const { name, condition, defects, notes, profile } = input
+  const locale = outputLocale(input.locale, provider.locales)
+  const reader = new JsonFieldStreamReader('marketingText')
+  let raw = ''
+
+  return observeGeneration(provider, 'stream', async () => {
+    for await (const chunk of provider.streamJson({
+      prompt: buildPrompt({ ...input, locale }, promptVersion),
+      input: { name, condition, defects, notes, profile, locale },
+      categories: taxonomy.categories
+    })) {
+      raw += chunk
+      const text = reader.push(chunk)
+      if (text) onToken(text)
+    }
+    return { ...parseSuggestion(raw.trim(), input, undefined, locale), promptVersion }
+  }, errorCode)
+}
+
+// Generates a new version of one field of an existing suggestion, keeping the other one. Never cached:
+// asking again is how sellers get a different variant.
+export async function regenerateSuggestion(
+  input: FormInput,
+  request: RegenerationRequest,
+  provider: LlmProvider = resolveProvider(),
+  promptVersion: string = assignPrompt()
+): Promise<SuggestionResult> {
+  guard(checkInput({ ...input, ...request.current, instruction: request.instruction }))
+  const { name, condition, defects, notes, profile } = input
+  const locale = outputLocale(input.locale, provider.locales)
+
+  const categories = regenerationCategories(taxonomy.categories, request)
+
+  return observeGeneration(provider, 'regenerate', async () => {
+    const { raw, data } = await provider.generateJson({
+      prompt: [buildPrompt({ ...input, locale }, promptVersion, categories), ...regenerationInstructions(request)].join('\n'),
+      input: { name, condition, defects, notes, profile, locale },
+      categories
+    })
+    const parsed = keepCurrentFields(data, request)
+    return { ...parseSuggestion(raw, input, parsed, locale, rejectedCategories(request)), promptVersion }
+  }, errorCode)
+}
+
+// Runs uploaded photos through the vision provider and folds the findings into the input.
+// Photos never fail a suggestion: without a usable vision provider they are skipped with a warning.
+export async function inspectPhotos(
+  input: FormInput,
+  images: ImageInput[],
+  log: Logger = logger
+): Promise<{ input: FormInput; findings?: ImageFindings; warnings: SuggestionWarning[] }> {
+  const vision = resolveVisionProvider()
+  if (!vision) {
+    return {
+      input,
+      warnings: [{ code: 'VISION_UNAVAILABLE', message: 'Photos were not analyzed because no vision provider is configured' }]
+    }
+  }
+
+  try {
+    const findings = await vision.analyzeImages(images, input)
+    return { ...applyImageFindings(input, findings), findings }
+  } catch (error) {
+    log.error('Photo analysis failed', { error, vision: vision.name })
+    return { input, warnings: [{ code: 'VISION_FAILED', message: 'Photos could not be analyzed' }] }
+  }
+}
+
+// Serves a suggestion from `cache` when possible. With `onToken` the result is streamed on a miss,
+// and a cached result is emitted as a single token. Photo findings are folded into the input first,
+// so the cache entry is keyed on what the photos showed rather than on the image bytes.
+export async function getSuggestion(
+  input: FormInput,
+  cache: CacheBackend | null,
+  options: { bypass?: boolean; onToken?: (text: string) => void; images?: ImageInput[]; log?: Logger } = {}
+): Promise<SuggestionOutcome> {
+  const { images = [], ...rest } = options
+  if (images.length > 0) {
+    // The seller's own text is checked before photo findings are added to it
+    guard(checkInput(input))
+    const inspected = await inspectPhotos(input, images, options.log)
+    const { result, ...outcome } = await getSuggestion(inspected.input, cache, rest)
+    const warnings = [...(result.warnings ?? []), ...inspected.warnings]
+    return {
+      ...outcome,
+      result: {
+        ...result,
+        ...(inspected.findings && { imageFindings: inspected.findings }),
+        ...(warnings.length > 0 && { warnings })
+      }
+    }
+  }
+
+  const provider = resolveProvider()
+  const generatedBy = { name: provider.name, model: provider.model }
+  const promptVersion = assignPrompt()
+  const { bypass = false, onToken } = options
+  const generate = () => onToken
+    ? streamSuggestion(input, onToken, provider, promptVersion)
+    : generateSuggestion(input, provider, promptVersion)
+
+  if (!cache || bypass) {
+    return counted({ result: await generate(), cacheStatus: 'BYPASS', provider: generatedBy })
+  }
+
+  const key = suggestionCacheKey(input, {
+    promptVersion: `${SUGGESTION_PROMPT}@${promptVersion}:${taxonomy.version}:${comparables.version}`,
+    provider: provider.name,
+    model: provider.model
+  })
+
+  const cached = await cache.get(key)
+  if (cached) {
+    const result = JSON.parse(cached) as SuggestionResult
+    onToken?.(result.marketingText)
+    return counted({ result, cacheStatus: 'HIT', provider: generatedBy, cacheKey: key })
+  }
+
+  const result = await generate()
+  await cache.set(key, JSON.stringify(result), CACHE_TTL_SECONDS)
+  return counted({ result, cacheStatus: 'MISS', provider: generatedBy, cacheKey: key })
+}
+
+function counted(outcome: SuggestionOutcome): SuggestionOutcome {
+  suggestionResults.inc({
+    category: outcome.result.category,
+    cache: outcome.cacheStatus,
+    prompt_version: outcome.result.promptVersion ?? 'unknown'
+  })
+  return outcome
+}
+
+// Failure code for metrics, the same one clients receive
+function errorCode(error: unknown): string {
+  return toErrorResponse(error).code
+}
+
+export function toErrorResponse(error: unknown): { status: number; error: string; code: string } {
+  if (error instanceof SuggestionError) {
+    return { status: error.status, error: error.message, code: error.code }
+  }
+
+  // Replaying fixtures: a prompt without a recorded response must not pass for a model failure
+  if (error instanceof ProviderError && error.code === 'FIXTURE_NOT_FOUND') {
+    return { status: 500, error: error.message, code: error.code }
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('API_KEY_INVALID')) {
+      return { status: 500, error: 'AI service configuration error', code: 'SERVICE_CONFIG_ERROR' }
+    }
+
+    if (error.message.includes('QUOTA_EXCEEDED')) {
+      return { status: 429, error: 'AI service quota exceeded', code: 'QUOTA_EXCEEDED' }
+    }
+  }
+
+  return { status: 500, error: 'Failed to generate suggestions', code: 'INTERNAL_ERROR' }
+}
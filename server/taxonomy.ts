@@ -0,0 +1,86 @@
+import { existsSync, readFileSync } from 'fs'
+import { resolve } from 'path'
+import { breadcrumbs, buildCategoryTree, CATEGORIES, describeCategory, TAXONOMY_SOURCE, TaxonomyIndex } from '../shared/taxonomy'
+import type { CategoryDetails, CategoryNode } from '../shared/taxonomy'
+import { translateBreadcrumbs } from '../shared/locales'
+import type { Locale } from '../shared/locales'
+import { logger } from './logger'
+import { dataFile } from './paths'
+
+export interface ActiveTaxonomy {
+  source: string
+  root: string
+  index: TaxonomyIndex | null
+  // Categories the suggester may choose from
+  categories: string[]
+  // Changes whenever the allowed categories change; part of the suggestion cache key
+  version: string
+}
+
+// Loads the local copy of Google's taxonomy-with-ids file (see scripts/fetch_taxonomy_subset.py)
+// and allows every leaf under TAXONOMY_ROOT. Without the file the curated subset is used.
+const DEFAULT_TAXONOMY_FILE = dataFile('taxonomy-with-ids.en-US.txt')
+
+export function loadTaxonomy(
+  file = process.env.TAXONOMY_FILE || DEFAULT_TAXONOMY_FILE,
+  root = process.env.TAXONOMY_ROOT || 'Electronics'
+): ActiveTaxonomy {
+  const path = resolve(file)
+
+  if (existsSync(path)) {
+    const index = TaxonomyIndex.parse(readFileSync(path, 'utf-8'))
+    const categories = index.leaves(root).map(entry => entry.path)
+
+    if (categories.length > 0) {
+      return {
+        source: TAXONOMY_SOURCE,
+        root,
+        index,
+        categories,
+        version: `full:${root}:${categories.length}`
+      }
+    }
+
+    logger.warn('Taxonomy root not found, using the curated subset', { root, path })
+  } else {
+    logger.warn('Taxonomy file not found, using the curated subset without category IDs', { path })
+  }
+
+  return {
+    source: TAXONOMY_SOURCE,
+    root,
+    index: null,
+    categories: CATEGORIES,
+    version: `subset:${CATEGORIES.length}`
+  }
+}
+
+export const taxonomy = loadTaxonomy()
+
+export function categoryTree(active: ActiveTaxonomy = taxonomy): CategoryNode[] {
+  return active.index ? active.index.tree(active.root) : buildCategoryTree(active.categories)
+}
+
+export function categoryDetails(path: string, active: ActiveTaxonomy = taxonomy): CategoryDetails {
+  return describeCategory(path, active.index)
+}
+
+const localizedIndexes = new Map<Locale, TaxonomyIndex | null>()
+
+// Google publishes the taxonomy per locale with the same IDs (taxonomy-with-ids.de-DE.txt, ...).
+// Localized files next to the English one are loaded on first use.
+function localizedIndex(locale: Locale): TaxonomyIndex | null {
+  if (!localizedIndexes.has(locale)) {
+    const file = (process.env.TAXONOMY_FILE || DEFAULT_TAXONOMY_FILE).replace('en-US', locale)
+    const path = resolve(file)
+    localizedIndexes.set(locale, existsSync(path) ? TaxonomyIndex.parse(readFileSync(path, 'utf-8')) : null)
+  }
+  return localizedIndexes.get(locale) ?? null
+}
+
+// Category breadcrumbs in `locale`, from the official localized taxonomy when available
+export function categoryLabels(path: string, locale: Locale, active: ActiveTaxonomy = taxonomy): string[] {
+  const id = active.index?.getByPath(path)?.id
+  const entry = id !== undefined ? localizedIndex(locale)?.getById(id) : undefined
+  return entry ? breadcrumbs(entry.path) : translateBreadcrumbs(path, locale)
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { GRADING_SCHEMES } from '../shared/grading'
+import { MAX_INPUT_LENGTHS } from '../shared/guardrails'
+import { applyImageFindings, StubVisionProvider } from './vision'
+
+const image = (filename: string) => ({ data: Buffer.from('fake'), mimeType: 'image/jpeg', filename })
+
+describe('stub vision provider', () => {
+  const vision = new StubVisionProvider()
+
+  it('reports defects named in the file names', async () => {
+    const findings = await vision.analyzeImages([image('screen-crack.jpg'), image('front.jpg')], {
+      name: 'iPhone 12',
+      condition: 'Like New'
+    })
+    expect(findings).toEqual({
+      productMatch: true,
+      detectedProduct: 'iPhone 12',
+      defects: ['cracked glass'],
+      suggestedCondition: 'For Parts'
+    })
+  })
+
+  it('suggests the best grade the defects allow', async () => {
+    const findings = await vision.analyzeImages([image('scratches.jpg')], { name: 'iPhone 12', condition: 'Mint' })
+    expect(findings.suggestedCondition).toBe('B')
+
+    const simple = new StubVisionProvider(GRADING_SCHEMES.simple)
+    expect((await simple.analyzeImages([image('dent.jpg')], { name: 'iPhone 12', condition: 'Like New' })).suggestedCondition)
+      .toBe('Fair')
+  })
+
+  it('reports a mismatch', async () => {
+    const findings = await vision.analyzeImages([image('wrong-item.png')], { name: 'PS5', condition: 'Good' })
+    expect(findings.productMatch).toBe(false)
+  })
+})
+
+describe('applyImageFindings', () => {
+  it('adds defects to the notes and lowers the condition', () => {
+    const { input, warnings } = applyImageFindings(
+      { name: 'iPhone 12', condition: 'Like New', notes: 'Battery 90%' },
+      { productMatch: true, defects: ['cracked glass', 'dent on the casing'], suggestedCondition: 'Fair' }
+    )
+    expect(input).toEqual({
+      name: 'iPhone 12',
+      condition: 'Fair',
+      notes: 'Battery 90% Visible in photos: cracked glass, dent on the casing.'
+    })
+    expect(warnings.map(w => w.code)).toEqual(['CONDITION_ADJUSTED'])
+  })
+
+  it('adds only the defects that fit within the notes limit', () => {
+    const notes = 'n'.repeat(MAX_INPUT_LENGTHS.notes - 40)
+    const { input } = applyImageFindings(
+      { name: 'iPhone 12', condition: 'B', notes },
+      { productMatch: true, defects: ['cracked glass', 'dent on the casing'] }
+    )
+    expect(input.notes).toBe(`${notes} Visible in photos: cracked glass.`)
+
+    const full = 'n'.repeat(MAX_INPUT_LENGTHS.notes)
+    expect(applyImageFindings({ name: 'iPhone 12', condition: 'B', notes: full }, { productMatch: true, defects: ['dent'] }).input.notes)
+      .toBe(full)
+  })
+
+  it('never raises the stated condition', () => {
+    const { input, warnings } = applyImageFindings(
+      { name: 'iPhone 12', condition: 'Fair' },
+      { productMatch: null, defects: [], suggestedCondition: 'Like New' }
+    )
+    expect(input.condition).toBe('Fair')
+    expect(input.notes).toBeUndefined()
+    expect(warnings).toEqual([])
+  })
+
+  it('warns when the photos show another product', () => {
+    const { warnings } = applyImageFindings(
+      { name: 'PS5', condition: 'Good' },
+      { productMatch: false, detectedProduct: 'Xbox Series X', defects: [] }
+    )
+    expect(warnings).toEqual([{ code: 'PHOTO_PRODUCT_MISMATCH', message: 'The photos seem to show Xbox Series X, not PS5' }])
+  })
+})
@@ -0,0 +1,153 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { z } from 'zod'
+import { findGrade, gradeForDefects, gradeRank } from '../shared/grading'
+import type { DefectId, GradingScheme } from '../shared/grading'
+import { MAX_INPUT_LENGTHS } from '../shared/guardrails'
+import { DEFAULT_GEMINI_MODEL, safeParseJson } from '../shared/providers'
+import type { FormInput, ImageFindings, SuggestionWarning } from '../shared/types'
+import { gradingScheme } from './grading'
+
+export interface ImageInput {
+  data: Buffer
+  mimeType: string
+  filename?: string
+}
+
+// Multimodal model that inspects listing photos
+export interface VisionProvider {
+  readonly name: string
+  readonly model: string
+  analyzeImages(images: ImageInput[], input: FormInput): Promise<ImageFindings>
+}
+
+const findingsSchema = (scheme: GradingScheme) => z.object({
+  productMatch: z.boolean().nullable().catch(null),
+  detectedProduct: z.string().trim().min(1).max(100).optional().catch(undefined),
+  defects: z.array(z.string().trim().min(1).max(100)).max(10).catch([]),
+  suggestedCondition: z.string()
+    .transform(condition => findGrade(condition, scheme)?.id)
+    .optional()
+    .catch(undefined)
+})
+
+export function buildVisionPrompt({ name, condition }: FormInput, scheme: GradingScheme = gradingScheme): string {
+  return [
+    'You are inspecting photos of a second-hand electronics item before it is listed for sale.',
+    `The seller says the item is: ${name}`,
+    `The seller rates the condition as: ${condition}`,
+    'Tasks:',
+    '1) Decide whether the photos show that product (productMatch true/false, or null if unclear) and name what you see (detectedProduct).',
+    '2) List visible defects such as scratches, dents, cracks or missing parts, each as a short phrase (defects).',
+    '3) Suggest the condition grade that fits the photos (suggestedCondition), one of:',
+    ...scheme.grades.map(grade => `   ${grade.id}: ${grade.definition}`),
+    'Return JSON only with keys productMatch, detectedProduct, defects and suggestedCondition.'
+  ].join('\n')
+}
+
+export class GeminiVisionProvider implements VisionProvider {
+  readonly name = 'gemini'
+  readonly model: string
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL, private scheme: GradingScheme = gradingScheme) {
+    this.client = new GoogleGenerativeAI(apiKey)
+    this.model = model
+  }
+
+  async analyzeImages(images: ImageInput[], input: FormInput): Promise<ImageFindings> {
+    const model = this.client.getGenerativeModel({ model: this.model })
+    const result = await model.generateContent([
+      buildVisionPrompt(input, this.scheme),
+      ...images.map(image => ({ inlineData: { data: image.data.toString('base64'), mimeType: image.mimeType } }))
+    ])
+    return findingsSchema(this.scheme).parse(safeParseJson(result.response.text()) ?? {})
+  }
+}
+
+const STUB_DEFECTS: Array<[RegExp, string, DefectId]> = [
+  [/crack/i, 'cracked glass', 'cracked_glass'],
+  [/scratch/i, 'visible scratches', 'screen_scratches'],
+  [/dent/i, 'dent on the casing', 'dents'],
+  [/stain/i, 'stains', 'body_wear'],
+  [/missing/i, 'missing parts', 'missing_accessories']
+]
+
+// Offline stand-in for tests and demos: "defects" come from the uploaded file names
+// (e.g. "screen-crack.jpg") and a file named like "wrong-item.jpg" reports a product mismatch.
+// The suggested grade is the best one the defect checklist allows.
+export class StubVisionProvider implements VisionProvider {
+  readonly name = 'stub'
+  readonly model = 'stub-vision'
+
+  constructor(private scheme: GradingScheme = gradingScheme) {}
+
+  async analyzeImages(images: ImageInput[], input: FormInput): Promise<ImageFindings> {
+    const names = images.map(image => image.filename ?? '').join(' ')
+    const found = STUB_DEFECTS.filter(([pattern]) => pattern.test(names))
+    const mismatch = /wrong|mismatch/i.test(names)
+
+    return {
+      productMatch: !mismatch,
+      detectedProduct: mismatch ? undefined : input.name,
+      defects: found.map(([, defect]) => defect),
+      suggestedCondition: found.length > 0
+        ? gradeForDefects(found.map(([, , id]) => id), this.scheme).id
+        : input.condition
+    }
+  }
+}
+
+// VISION_PROVIDER selects the provider: "gemini" (default when GEMINI_API_KEY is set), "stub" or "off"
+export function resolveVisionProvider(): VisionProvider | null {
+  const provider = process.env.VISION_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'off')
+
+  switch (provider) {
+    case 'gemini':
+      return process.env.GEMINI_API_KEY
+        ? new GeminiVisionProvider(process.env.GEMINI_API_KEY, process.env.VISION_MODEL || process.env.LLM_MODEL)
+        : null
+    case 'stub':
+      return new StubVisionProvider()
+    default:
+      return null
+  }
+}
+
+// Folds photo findings into the input: defects are appended to the notes so the copy mentions them,
+// as many as fit within the notes limit, and the condition is lowered (never raised) to what the photos show
+export function applyImageFindings(
+  input: FormInput,
+  findings: ImageFindings,
+  scheme: GradingScheme = gradingScheme
+): { input: FormInput; warnings: SuggestionWarning[] } {
+  const warnings: SuggestionWarning[] = []
+  let { condition, notes } = input
+
+  const stated = notes?.trim() ?? ''
+  const room = MAX_INPUT_LENGTHS.notes - (stated ? stated.length + 1 : 0)
+  const seen = (defects: string[]) => `Visible in photos: ${defects.join(', ')}.`
+  const listed = findings.defects.filter((_, i) => seen(findings.defects.slice(0, i + 1)).length <= room)
+  if (listed.length > 0) {
+    notes = stated ? `${stated} ${seen(listed)}` : seen(listed)
+  }
+
+  const suggested = findings.suggestedCondition
+  if (suggested && gradeRank(suggested, scheme) > gradeRank(condition, scheme)) {
+    warnings.push({
+      code: 'CONDITION_ADJUSTED',
+      message: `Condition lowered from ${condition} to ${suggested} based on the photos`
+    })
+    condition = suggested
+  }
+
+  if (findings.productMatch === false) {
+    warnings.push({
+      code: 'PHOTO_PRODUCT_MISMATCH',
+      message: findings.detectedProduct
+        ? `The photos seem to show ${findings.detectedProduct}, not ${input.name}`
+        : `The photos do not seem to show ${input.name}`
+    })
+  }
+
+  return { input: { ...input, condition, notes }, warnings }
+}
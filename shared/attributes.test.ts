@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { extractAttributes, resolveAttributes } from './attributes'
+
+describe('extractAttributes', () => {
+  it('extracts brand, model, capacity, color and battery health from the name', () => {
+    expect(extractAttributes({ name: 'iPhone 12 Pro 256GB Pacific Blue, 85% battery', condition: 'Good' })).toEqual({
+      brand: 'Apple',
+      model: 'iPhone 12 Pro',
+      capacity: '256GB',
+      color: 'Pacific Blue',
+      batteryHealth: 85
+    })
+  })
+
+  it('reads carrier lock and accessories from the notes', () => {
+    const attributes = extractAttributes({
+      name: 'Samsung Galaxy S21 128 GB',
+      condition: 'Fair',
+      notes: 'Unlocked. Comes with original box and charger, no case. Battery health: 90%'
+    })
+    expect(attributes).toMatchObject({
+      brand: 'Samsung',
+      model: 'Galaxy S21',
+      capacity: '128GB',
+      carrierLock: 'unlocked',
+      batteryHealth: 90,
+      accessories: ['box', 'charger']
+    })
+  })
+
+  it('does not treat the product itself as an accessory', () => {
+    expect(extractAttributes({ name: 'iPhone 13 case', condition: 'Good' }).accessories).toBeUndefined()
+    expect(extractAttributes({ name: 'PS5 with 2 controllers', condition: 'Good' }).accessories).toEqual(['controller'])
+  })
+})
+
+describe('resolveAttributes', () => {
+  it('keeps valid model fields and fills invalid or missing ones locally', () => {
+    const attributes = resolveAttributes(
+      { brand: 'Apple', model: 'iPhone 12 Pro Max', capacity: 'lots', batteryHealth: '87', carrierLock: 'maybe' },
+      { name: 'iPhone 12 Pro Max 512GB, 85% battery', condition: 'Good', notes: 'unlocked' }
+    )
+    expect(attributes).toEqual({
+      brand: 'Apple',
+      model: 'iPhone 12 Pro Max',
+      capacity: '512GB',
+      batteryHealth: 87,
+      carrierLock: 'unlocked'
+    })
+  })
+
+  it('ignores a missing or malformed attributes object', () => {
+    expect(resolveAttributes(null, { name: 'MacBook Air M1', condition: 'Like New' })).toEqual({
+      brand: 'Apple',
+      model: 'MacBook Air M1'
+    })
+    expect(resolveAttributes('n/a', { name: 'Kindle', condition: 'Good' })).toEqual({ brand: 'Amazon', model: 'Kindle' })
+  })
+})
@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import type { FormInput } from './types'
+
+export const productAttributesSchema = z.object({
+  brand: z.string().trim().min(1).max(50),
+  model: z.string().trim().min(1).max(100),
+  // Storage capacity, normalized like "256GB"
+  capacity: z.string().trim().regex(/^\d+(\.\d+)?\s?(GB|TB)$/i),
+  color: z.string().trim().min(1).max(50),
+  // Battery health in percent
+  batteryHealth: z.coerce.number().int().min(1).max(100),
+  carrierLock: z.enum(['unlocked', 'locked']),
+  accessories: z.array(z.string().trim().min(1).max(50)).max(20)
+}).partial()
+
+export type ProductAttributes = z.infer<typeof productAttributesSchema>
+
+const ATTRIBUTE_KEYS = Object.keys(productAttributesSchema.shape) as Array<keyof ProductAttributes>
+
+const BRANDS = [
+  'Apple', 'Samsung', 'Google', 'Sony', 'Microsoft', 'Nintendo', 'Bose', 'JBL', 'Beats', 'Dell', 'HP',
+  'Lenovo', 'Asus', 'Acer', 'LG', 'OnePlus', 'Xiaomi', 'Motorola', 'Canon', 'Nikon', 'Fujifilm', 'GoPro',
+  'Garmin', 'Fitbit', 'Sonos', 'Anker', 'Netgear', 'TP-Link', 'Logitech', 'Razer', 'Valve', 'Amazon'
+]
+
+// Product lines that identify the brand when the brand itself is not mentioned
+const PRODUCT_LINES: Array<[RegExp, string]> = [
+  [/\b(iphone|ipad|imac|macbook|mac mini|airpods|apple watch|homepod)\b/i, 'Apple'],
+  [/\bgalaxy\b/i, 'Samsung'],
+  [/\bpixel\b/i, 'Google'],
+  [/\b(playstation|ps[345])\b/i, 'Sony'],
+  [/\b(xbox|surface)\b/i, 'Microsoft'],
+  [/\bswitch\b/i, 'Nintendo'],
+  [/\bsteam deck\b/i, 'Valve'],
+  [/\bkindle\b/i, 'Amazon'],
+  [/\bthinkpad\b/i, 'Lenovo']
+]
+
+const COLOR_PATTERN = new RegExp(
+  '\\b((?:space|pacific|sierra|alpine|deep|midnight|rose|jet|matte|phantom|product)\\s+)?' +
+  '(black|white|silver|gold|gr[ae]y|blue|red|green|purple|pink|yellow|graphite|midnight|starlight|titanium)\\b',
+  'i'
+)
+
+const ACCESSORIES: Array<[RegExp, string]> = [
+  [/\b(original\s+)?box\b/i, 'box'],
+  [/\bcharg(er|ing cable)\b/i, 'charger'],
+  [/\bcables?\b/i, 'cable'],
+  [/\bcase\b/i, 'case'],
+  [/\bcontrollers?\b/i, 'controller'],
+  [/\b(apple pencil|stylus)\b/i, 'stylus'],
+  [/\bkeyboard\b/i, 'keyboard'],
+  [/\bremote\b/i, 'remote'],
+  [/\b(strap|band)\b/i, 'strap'],
+  [/\b(ear ?tips|earbuds|earphones)\b/i, 'earphones'],
+  [/\bmanual\b/i, 'manual']
+]
+
+const titleCase = (text: string) => text.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase())
+
+// Regex-based extraction from the product name and notes, used when the model omits fields
+export function extractAttributes({ name, notes = '' }: FormInput): ProductAttributes {
+  const text = `${name}, ${notes}`
+  const attributes: ProductAttributes = {}
+
+  const brand = BRANDS.find(b => new RegExp(`\\b${b}\\b`, 'i').test(text))
+    ?? PRODUCT_LINES.find(([pattern]) => pattern.test(text))?.[1]
+  if (brand) attributes.brand = brand
+
+  const capacity = /\b(\d+(?:\.\d+)?)\s?(GB|TB)\b/i.exec(text)
+  if (capacity) attributes.capacity = `${capacity[1]}${capacity[2].toUpperCase()}`
+
+  const color = COLOR_PATTERN.exec(text)
+  if (color) attributes.color = titleCase(color[0])
+
+  const battery = /\b(\d{1,3})\s?%\s*(?:battery|batt\b|bh\b)/i.exec(text)
+    ?? /\bbattery(?:\s+health)?\s*(?:is|at|of|:)?\s*(\d{1,3})\s?%/i.exec(text)
+  if (battery && Number(battery[1]) <= 100) attributes.batteryHealth = Number(battery[1])
+
+  if (/\bunlocked\b/i.test(text)) {
+    attributes.carrierLock = 'unlocked'
+  } else if (/\b(carrier[- ]locked|locked to)\b/i.test(text)) {
+    attributes.carrierLock = 'locked'
+  }
+
+  // Model: the first clause of the name without brand, capacity and color
+  let model = name.split(/[,(]/)[0]
+  if (brand) model = model.replace(new RegExp(`\\b${brand}\\b`, 'i'), '')
+  model = model
+    .replace(/\b\d+(?:\.\d+)?\s?(GB|TB)\b/gi, '')
+    .replace(new RegExp(COLOR_PATTERN.source, 'gi'), '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (model) attributes.model = model
+
+  // Accessories only count in the notes or after "with"/"includes", and not when negated
+  const included = [notes, /\b(?:with|includes?|incl\.?)\b(.*)$/i.exec(name)?.[1] ?? ''].join(' ')
+  const accessories = ACCESSORIES
+    .filter(([pattern]) => {
+      const match = pattern.exec(included)
+      return match && !/\b(no|without|missing)\s+(\w+\s+)?$/i.test(included.slice(0, match.index))
+    })
+    .map(([, accessory]) => accessory)
+  if (accessories.length > 0) attributes.accessories = accessories
+
+  return attributes
+}
+
+// Keeps the valid fields of the model's attributes and fills the rest from the local extractor
+export function resolveAttributes(value: unknown, input: FormInput): ProductAttributes {
+  const extracted = extractAttributes(input)
+  const fromModel = value && typeof value === 'object' ? value as Record<string, unknown> : {}
+  const attributes: Record<string, unknown> = {}
+
+  for (const key of ATTRIBUTE_KEYS) {
+    const parsed = productAttributesSchema.shape[key].safeParse(fromModel[key])
+    const resolved = parsed.success && parsed.data !== undefined ? parsed.data : extracted[key]
+    if (resolved !== undefined && !(Array.isArray(resolved) && resolved.length === 0)) {
+      attributes[key] = resolved
+    }
+  }
+
+  return attributes as ProductAttributes
+}
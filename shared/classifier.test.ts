@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { CategoryClassifier, classifyInput, tokenize } from './classifier'
+import { CATEGORIES, chooseCategory } from './taxonomy'
+
+const top = (name: string, notes?: string) =>
+  classifyInput({ name, condition: 'Good', notes }, CATEGORIES)[0]?.category
+
+describe('offline classifier', () => {
+  it('recognizes product names without an AI call', () => {
+    expect(top('AirPods Pro')).toBe('Electronics > Audio > Headphones')
+    expect(top('PS5 Digital Edition')).toBe('Electronics > Gaming > Video Game Consoles')
+    expect(top('MacBook Air M1')).toBe('Electronics > Computers > Laptops')
+    expect(top('Galaxy Buds2')).toBe('Electronics > Audio > Headphones')
+    expect(top('Galaxy S21 Ultra')).toBe('Electronics > Communications > Telephony > Mobile Phones')
+  })
+
+  it('lets accessory keywords outrank the device they fit', () => {
+    expect(top('iPhone 13 leather case')).toBe('Electronics > Communications > Telephony > Mobile Phone Accessories')
+  })
+
+  it('uses notes only when the name is not informative', () => {
+    expect(top('Sony WH-1000XM4', 'noise cancelling headphones')).toBe('Electronics > Audio > Headphones')
+    expect(top('Mystery gadget')).toBeUndefined()
+  })
+
+  it('works on category lists it has no profile for', () => {
+    const classifier = new CategoryClassifier(['Home & Garden > Kitchen > Blenders', 'Home & Garden > Lighting'])
+    expect(classifier.classify('blenders')[0]?.category).toBe('Home & Garden > Kitchen > Blenders')
+  })
+
+  it('stems plurals and drops stopwords', () => {
+    expect(tokenize('The Phones and 2 cases')).toEqual(['phone', 'case'])
+  })
+})
+
+describe('category fallback', () => {
+  it('classifies model answers that match no path', () => {
+    expect(chooseCategory('Earbuds')).toBe('Electronics > Audio > Headphones')
+  })
+
+  it('falls back to the item description', () => {
+    expect(chooseCategory('Gadgets', CATEGORIES, 'PS5 with two controllers')).toBe('Electronics > Gaming > Video Game Consoles')
+    expect(chooseCategory('Gadgets', CATEGORIES, 'unknown thing')).toBe(CATEGORIES[0])
+  })
+})
@@ -0,0 +1,239 @@
+import type { FormInput } from './types'
+
+export interface CategoryScore {
+  category: string
+  score: number
+}
+
+interface CategoryProfile {
+  // Leaf labels this profile applies to, matched against the end of a category path
+  labels: string[]
+  // Phrases that identify the category outright; multi-word phrases outrank single words
+  keywords: string[]
+  // Representative listings, used as TF-IDF training text
+  examples: string[]
+  weight?: number
+}
+
+const PROFILES: CategoryProfile[] = [
+  {
+    labels: ['mobile phones', 'smartphones'],
+    keywords: ['iphone', 'galaxy', 'pixel', 'oneplus', 'xiaomi', 'motorola', 'smartphone', 'cellphone', 'phone'],
+    examples: ['iPhone 12 Pro 128GB', 'Samsung Galaxy S21 Ultra', 'Google Pixel 7', 'OnePlus 9 Pro unlocked smartphone']
+  },
+  {
+    labels: ['mobile phone accessories'],
+    keywords: ['case', 'cover', 'screen protector', 'magsafe', 'power bank', 'phone holder', 'lightning cable', 'cable'],
+    examples: ['iPhone 13 silicone case', 'Tempered glass screen protector', 'MagSafe wallet', 'Anker power bank'],
+    weight: 1.5
+  },
+  {
+    labels: ['headphones', 'headphones & headsets'],
+    keywords: ['airpods', 'earbuds', 'earphones', 'headphones', 'headset', 'galaxy buds', 'pixel buds', 'beats'],
+    examples: ['AirPods Pro 2nd generation', 'Sony WH-1000XM4 noise cancelling headphones', 'Bose QuietComfort 45', 'Galaxy Buds2']
+  },
+  {
+    labels: ['speakers'],
+    keywords: ['speaker', 'soundbar', 'homepod', 'sonos', 'echo dot', 'jbl'],
+    examples: ['JBL Flip 5 bluetooth speaker', 'Sonos One', 'Apple HomePod mini', 'Amazon Echo Dot']
+  },
+  {
+    labels: ['smartwatches', 'smart watches'],
+    keywords: ['apple watch', 'galaxy watch', 'pixel watch', 'smartwatch', 'watch'],
+    examples: ['Apple Watch Series 7 45mm', 'Samsung Galaxy Watch 5', 'Garmin Venu smartwatch']
+  },
+  {
+    labels: ['fitness trackers', 'activity monitors'],
+    keywords: ['fitbit', 'whoop', 'mi band', 'fitness tracker', 'fitness band'],
+    examples: ['Fitbit Charge 5', 'Xiaomi Mi Band 7', 'Whoop 4.0 strap']
+  },
+  {
+    labels: ['tablets', 'tablet computers'],
+    keywords: ['ipad', 'galaxy tab', 'surface pro', 'kindle', 'tablet'],
+    examples: ['iPad Air 4th generation', 'Samsung Galaxy Tab S7', 'Kindle Paperwhite', 'Microsoft Surface Pro 7']
+  },
+  {
+    labels: ['laptops'],
+    keywords: ['macbook', 'thinkpad', 'chromebook', 'zenbook', 'xps', 'notebook', 'laptop'],
+    examples: ['MacBook Air M1 13-inch', 'Lenovo ThinkPad X1 Carbon', 'Dell XPS 13', 'HP Chromebook 14']
+  },
+  {
+    labels: ['desktop computers'],
+    keywords: ['imac', 'mac mini', 'mac studio', 'desktop', 'gaming pc', 'tower'],
+    examples: ['iMac 24-inch M1', 'Mac mini 2020', 'Custom gaming PC RTX 3070', 'Dell OptiPlex desktop tower']
+  },
+  {
+    labels: ['video game consoles', 'game consoles'],
+    keywords: ['ps4', 'ps5', 'playstation', 'xbox', 'nintendo switch', 'switch', 'steam deck', 'console'],
+    examples: ['PlayStation 5 disc edition', 'Xbox Series X 1TB', 'Nintendo Switch OLED', 'Steam Deck 512GB']
+  },
+  {
+    labels: ['digital cameras', 'cameras'],
+    keywords: ['camera', 'dslr', 'mirrorless', 'gopro', 'eos', 'nikon', 'fujifilm'],
+    examples: ['Canon EOS R6 mirrorless camera', 'Nikon D750 DSLR body', 'GoPro Hero 10', 'Fujifilm X100V']
+  },
+  {
+    labels: ['televisions'],
+    keywords: ['tv', 'television', 'oled tv', 'smart tv', 'qled'],
+    examples: ['LG C1 55-inch OLED TV', 'Samsung QLED 4K smart TV', 'Sony Bravia television']
+  },
+  {
+    labels: ['monitors', 'computer monitors'],
+    keywords: ['monitor', 'ultrawide', 'display'],
+    examples: ['Dell UltraSharp 27-inch monitor', 'LG ultrawide 34-inch display', 'Apple Studio Display']
+  },
+  {
+    labels: ['routers'],
+    keywords: ['router', 'mesh wifi', 'eero', 'modem', 'access point'],
+    examples: ['Netgear Nighthawk router', 'Google Nest WiFi mesh', 'TP-Link Archer AX6000']
+  },
+  {
+    labels: ['external hard drives', 'hard drives'],
+    keywords: ['external hard drive', 'hard drive', 'hdd', 'ssd', 'portable drive'],
+    examples: ['WD My Passport 2TB external hard drive', 'Samsung T7 portable SSD', 'Seagate Expansion HDD']
+  },
+  {
+    labels: ['usb flash drives'],
+    keywords: ['usb stick', 'flash drive', 'thumb drive', 'pen drive'],
+    examples: ['SanDisk Ultra 64GB USB flash drive', 'Kingston DataTraveler thumb drive']
+  },
+  {
+    labels: ['power adapters', 'power adapters & chargers'],
+    keywords: ['charger', 'power adapter', 'power supply', 'charging brick'],
+    examples: ['Apple 20W USB-C power adapter', 'MacBook Pro 96W charger', 'Anker GaN charger'],
+    weight: 1.25
+  },
+  {
+    labels: ['printers', 'inkjet printers'],
+    keywords: ['printer', 'inkjet', 'laserjet', 'officejet', 'pixma'],
+    examples: ['HP OfficeJet Pro 9015 printer', 'Canon PIXMA inkjet printer', 'Brother laser printer']
+  },
+  {
+    labels: ['home theater systems'],
+    keywords: ['home theater', 'av receiver', 'surround sound'],
+    examples: ['Sony 5.1 home theater system', 'Denon AV receiver surround sound']
+  },
+  {
+    labels: ['gps navigation', 'gps navigation systems'],
+    keywords: ['gps', 'sat nav', 'tomtom', 'garmin drive'],
+    examples: ['TomTom GO 520 GPS', 'Garmin DriveSmart 65 sat nav']
+  }
+]
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'with', 'for', 'of', 'in', 'on', 'to', 'gen', 'generation', 'edition', 'inch'])
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    // "Buds2" and "Buds 2" should tokenize alike, while short model codes like "ps5" stay intact
+    .map(token => /^[a-z]{3,}\d+$/.test(token) ? token.replace(/\d+$/, '') : token)
+    .filter(token => token && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+    // Naive plural stemming so "phones" and "phone" share a term
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token)
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((word, j) => tokens[i + j] === word)) return true
+  }
+  return false
+}
+
+// Keyword dictionary plus TF-IDF over category names and example listings. Classifies a product
+// description against an arbitrary category list without any AI call.
+export class CategoryClassifier {
+  private categories: string[]
+  private keywords: Array<{ phrase: string[]; weight: number }[]>
+  private vectors: Array<Map<string, number>>
+  private idf = new Map<string, number>()
+
+  constructor(categories: string[]) {
+    this.categories = categories
+
+    const profiles = categories.map(category => {
+      const lower = category.toLowerCase()
+      return PROFILES.filter(p => p.labels.some(label => lower.endsWith(label)))
+    })
+
+    this.keywords = profiles.map(matched => matched.flatMap(p => p.keywords.map(keyword => {
+      const phrase = tokenize(keyword)
+      return { phrase, weight: (p.weight ?? 1) + 0.25 * (phrase.length - 1) }
+    })))
+
+    // One document per category: its path, keywords and examples
+    const documents = categories.map((category, i) => tokenize([
+      category,
+      ...profiles[i].flatMap(p => [...p.keywords, ...p.examples])
+    ].join(' ')))
+
+    const documentFrequency = new Map<string, number>()
+    for (const terms of documents) {
+      for (const term of new Set(terms)) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+      }
+    }
+    for (const [term, df] of documentFrequency) {
+      this.idf.set(term, Math.log((documents.length + 1) / (df + 1)) + 1)
+    }
+
+    this.vectors = documents.map(terms => this.vectorize(terms))
+  }
+
+  private vectorize(terms: string[]): Map<string, number> {
+    const vector = new Map<string, number>()
+    for (const term of terms) {
+      const idf = this.idf.get(term)
+      if (idf) vector.set(term, (vector.get(term) ?? 0) + idf)
+    }
+
+    const norm = Math.sqrt([...vector.values()].reduce((sum, v) => sum + v * v, 0))
+    if (norm > 0) {
+      for (const [term, value] of vector) vector.set(term, value / norm)
+    }
+    return vector
+  }
+
+  // Ranked categories with a score > 0, best first
+  classify(text: string): CategoryScore[] {
+    const tokens = tokenize(text)
+    if (tokens.length === 0) return []
+
+    const query = this.vectorize(tokens)
+
+    return this.categories
+      .map((category, i) => {
+        const keyword = Math.max(0, ...this.keywords[i]
+          .filter(k => k.phrase.length > 0 && containsPhrase(tokens, k.phrase))
+          .map(k => k.weight))
+
+        let similarity = 0
+        for (const [term, value] of query) {
+          similarity += value * (this.vectors[i].get(term) ?? 0)
+        }
+
+        return { category, score: keyword + similarity }
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+  }
+}
+
+const classifiers = new WeakMap<string[], CategoryClassifier>()
+
+export function getClassifier(categories: string[]): CategoryClassifier {
+  let classifier = classifiers.get(categories)
+  if (!classifier) {
+    classifier = new CategoryClassifier(categories)
+    classifiers.set(categories, classifier)
+  }
+  return classifier
+}
+
+// The product name decides; notes only break ties or fill in when the name says nothing useful
+export function classifyInput(input: FormInput, categories: string[]): CategoryScore[] {
+  const classifier = getClassifier(categories)
+  const byName = classifier.classify(input.name)
+  if (byName.length > 0 || !input.notes) return byName
+  return classifier.classify(`${input.name} ${input.notes}`)
+}
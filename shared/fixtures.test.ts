@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { RecordingProvider, ReplayProvider } from './fixtures'
+import type { ModelFixture } from './fixtures'
+import { LocalProvider } from './providers'
+
+const request = {
+  prompt: 'Item: iPhone 12 Pro',
+  input: { name: 'iPhone 12 Pro', condition: 'Good' },
+  categories: ['Electronics', 'Electronics > Communications > Telephony > Mobile Phones']
+}
+
+describe('model fixtures', () => {
+  it('records what the wrapped provider answers and replays it for the same prompt', async () => {
+    const fixtures: ModelFixture[] = []
+    const recording = new RecordingProvider(new LocalProvider(), fixture => { fixtures.push(fixture) })
+    const live = await recording.generateJson(request)
+
+    expect(recording.name).toBe('local')
+    expect(fixtures).toEqual([expect.objectContaining({ prompt: request.prompt, response: live.raw, provider: 'local' })])
+
+    const replay = new ReplayProvider(fixtures)
+    expect(await replay.generateJson(request)).toEqual(live)
+
+    let streamed = ''
+    for await (const chunk of replay.streamJson(request)) streamed += chunk
+    expect(streamed).toBe(live.raw)
+  })
+
+  it('fails on prompts without a recorded response', async () => {
+    const replay = new ReplayProvider([])
+    await expect(replay.generateJson(request)).rejects.toMatchObject({
+      code: 'FIXTURE_NOT_FOUND',
+      message: expect.stringContaining('Item: iPhone 12 Pro')
+    })
+  })
+})
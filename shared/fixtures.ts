@@ -0,0 +1,95 @@
+import { ProviderError, safeParseJson } from './providers'
+import type { GenerationRequest, JsonGeneration, LlmProvider } from './providers'
+
+// A prompt and the raw response the model gave for it
+export type ModelFixture = {
+  prompt: string
+  response: string
+  provider: string
+  model: string
+  recordedAt: string
+}
+
+export type FixtureMode = 'record' | 'replay'
+
+export function fixtureMode(value?: string): FixtureMode | null {
+  return value === 'record' || value === 'replay' ? value : null
+}
+
+// Passes every request through to `provider` and hands each prompt/response pair to `record`
+export class RecordingProvider implements LlmProvider {
+  readonly name: LlmProvider['name']
+  readonly model: string
+  readonly locales?: LlmProvider['locales']
+  private provider: LlmProvider
+  private record: (fixture: ModelFixture) => void | Promise<void>
+
+  constructor(provider: LlmProvider, record: (fixture: ModelFixture) => void | Promise<void>) {
+    this.provider = provider
+    this.record = record
+    this.name = provider.name
+    this.model = provider.model
+    this.locales = provider.locales
+  }
+
+  async generateText(request: GenerationRequest): Promise<string> {
+    const text = await this.provider.generateText(request)
+    await this.save(request, text)
+    return text
+  }
+
+  async generateJson(request: GenerationRequest): Promise<JsonGeneration> {
+    const generation = await this.provider.generateJson(request)
+    await this.save(request, generation.raw)
+    return generation
+  }
+
+  async *streamJson(request: GenerationRequest): AsyncIterable<string> {
+    let raw = ''
+    for await (const chunk of this.provider.streamJson(request)) {
+      raw += chunk
+      yield chunk
+    }
+    await this.save(request, raw)
+  }
+
+  private save({ prompt }: GenerationRequest, response: string) {
+    return this.record({ prompt, response, provider: this.name, model: this.model, recordedAt: new Date().toISOString() })
+  }
+}
+
+// Serves recorded responses by exact prompt, so the same prompt always gets the same answer.
+// A prompt without a fixture is an error rather than a call to a live model.
+export class ReplayProvider implements LlmProvider {
+  readonly name = 'replay'
+  readonly model = 'fixtures'
+  private responses: Map<string, string>
+
+  constructor(fixtures: ModelFixture[]) {
+    this.responses = new Map(fixtures.map(fixture => [fixture.prompt, fixture.response]))
+  }
+
+  async generateText({ prompt }: GenerationRequest): Promise<string> {
+    const response = this.responses.get(prompt)
+    if (response === undefined) {
+      const excerpt = prompt.split('\n').find(line => line.startsWith('Item:')) ?? prompt.slice(0, 80)
+      throw new ProviderError(
+        `No recorded model response for this prompt (${excerpt}). Record it with LLM_FIXTURES=record.`,
+        'FIXTURE_NOT_FOUND'
+      )
+    }
+    return response
+  }
+
+  async generateJson(request: GenerationRequest): Promise<JsonGeneration> {
+    const raw = await this.generateText(request)
+    return { raw, data: safeParseJson(raw) }
+  }
+
+  async *streamJson(request: GenerationRequest): AsyncIterable<string> {
+    const raw = await this.generateText(request)
+    for (const chunk of raw.match(/\S+\s*/g) ?? []) {
+      yield chunk
+    }
+  }
+}
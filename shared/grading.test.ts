@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { conditionInstructions, findGrade, getGradingScheme, gradeCondition, GRADING_SCHEMES, gradeForDefects } from './grading'
+
+const refurb = GRADING_SCHEMES.refurb
+
+describe('grading', () => {
+  it('finds grades by ID, label or alias', () => {
+    expect(findGrade('b', refurb)?.id).toBe('B')
+    expect(findGrade('Grade C (Fair)', refurb)?.id).toBe('C')
+    expect(findGrade('Like New', refurb)?.id).toBe('Mint')
+    expect(findGrade('Mint', GRADING_SCHEMES.simple)).toBeUndefined()
+    expect(findGrade('Like New')?.id).toBe('Mint')
+    expect(getGradingScheme('unknown').id).toBe('refurb')
+  })
+
+  it('picks the best grade the defect checklist allows', () => {
+    expect(gradeForDefects([], refurb).id).toBe('Mint')
+    expect(gradeForDefects(['body_wear'], refurb).id).toBe('A')
+    expect(gradeForDefects(['screen_scratches', 'dents'], refurb).id).toBe('C')
+    expect(gradeForDefects(['faulty'], refurb).id).toBe('For Parts')
+  })
+
+  it('describes the grade and defects in the prompt', () => {
+    const lines = conditionInstructions({ name: 'iPhone 12', condition: 'B', defects: ['screen_scratches'] }, refurb)
+    expect(lines[0]).toContain('Grade B (Good) - Light scratches')
+    expect(lines[1]).toBe('Reported defects: Scratches on the screen')
+  })
+
+  it('describes the grade of the simple scheme rather than the refurb grade with the same name', () => {
+    const [line] = conditionInstructions({ name: 'iPhone 12', condition: 'Like New' }, GRADING_SCHEMES.simple)
+    expect(line).toBe('Condition: Like New - Barely any signs of use and everything works.')
+  })
+
+  it('maps the grade to the marketplace condition and flags a checklist mismatch', () => {
+    expect(gradeCondition({ name: 'PS5', condition: 'Good', profile: 'ebay' }, refurb)).toEqual({
+      grading: { scheme: 'refurb', grade: 'B', label: 'Grade B (Good)', marketplaceCondition: '5000' },
+      warnings: []
+    })
+
+    const { grading, warnings } = gradeCondition({ name: 'PS5', condition: 'A', defects: ['dents'], profile: 'generic' }, refurb)
+    expect(grading?.marketplaceCondition).toBeUndefined()
+    expect(warnings.map(w => w.code)).toEqual(['GRADE_DEFECT_MISMATCH'])
+    expect(warnings[0].message).toContain('fit Grade C (Fair)')
+  })
+
+  it('warns when the marketplace does not accept the grade', () => {
+    const { warnings } = gradeCondition({ name: 'iPhone 12', condition: 'For Parts', profile: 'backmarket' }, refurb)
+    expect(warnings).toEqual([{ code: 'GRADE_NOT_ACCEPTED', message: 'Back Market does not accept items graded For Parts' }])
+  })
+})
@@ -0,0 +1,228 @@
+import { getListingProfile } from './marketplaces'
+import type { ListingProfileId } from './marketplaces'
+import type { FormInput, SuggestionWarning } from './types'
+
+// Defect checklist the seller ticks; each grade lists the defects it tolerates
+export const DEFECTS = {
+  screen_scratches: 'Scratches on the screen',
+  body_wear: 'Scuffs or scratches on the body',
+  dents: 'Dents or chips in the casing',
+  cracked_glass: 'Cracked screen or back glass',
+  battery_degraded: 'Battery health below 80%',
+  missing_accessories: 'Missing original accessories',
+  faulty: 'Faulty or not fully working'
+} as const
+
+export type DefectId = keyof typeof DEFECTS
+
+export const DEFECT_IDS = Object.keys(DEFECTS) as [DefectId, ...DefectId[]]
+
+export interface ConditionGrade {
+  id: string
+  label: string
+  // Grade definition given to the model so the copy describes the item the way the grade does
+  definition: string
+  // Sentence ending used by the offline provider: "This iPhone 12 <phrase>."
+  phrase: string
+  // Value relative to the best grade, used to adjust comparable sale prices
+  valueFactor: number
+  allowedDefects: DefectId[]
+  // Condition each marketplace lists the grade under (eBay condition IDs, Facebook and Back Market values);
+  // a missing entry means the marketplace does not accept items in this grade
+  marketplaceConditions: Partial<Record<Exclude<ListingProfileId, 'generic'>, string>>
+  // Other names accepted as input, e.g. the original "Like New" / "Good" / "Fair"
+  aliases?: string[]
+}
+
+export interface GradingScheme {
+  id: string
+  label: string
+  // Best grade first
+  grades: ConditionGrade[]
+}
+
+export const GRADING_SCHEMES: Record<string, GradingScheme> = {
+  refurb: {
+    id: 'refurb',
+    label: 'Refurbisher grades',
+    grades: [
+      {
+        id: 'Mint',
+        label: 'Mint',
+        definition: 'No visible signs of use on screen or body, everything works, battery health 80% or more, all original accessories.',
+        phrase: 'is in mint condition with no visible signs of use',
+        valueFactor: 1,
+        allowedDefects: [],
+        marketplaceConditions: { ebay: '3000', facebook: 'used_like_new', backmarket: 'Premium' },
+        aliases: ['Like New']
+      },
+      {
+        id: 'A',
+        label: 'Grade A (Excellent)',
+        definition: 'Flawless screen, light micro-scratches on the body that are invisible at arm\'s length, everything works.',
+        phrase: 'is in excellent condition with only faint marks on the body',
+        valueFactor: 0.94,
+        allowedDefects: ['body_wear'],
+        marketplaceConditions: { ebay: '4000', facebook: 'used_like_new', backmarket: 'Excellent' },
+        aliases: ['Excellent']
+      },
+      {
+        id: 'B',
+        label: 'Grade B (Good)',
+        definition: 'Light scratches on the screen or body, no dents or cracks, everything works; accessories may be missing.',
+        phrase: 'is in good working condition with only light signs of use',
+        valueFactor: 0.88,
+        allowedDefects: ['screen_scratches', 'body_wear', 'missing_accessories'],
+        marketplaceConditions: { ebay: '5000', facebook: 'used_good', backmarket: 'Good' },
+        aliases: ['Good']
+      },
+      {
+        id: 'C',
+        label: 'Grade C (Fair)',
+        definition: 'Heavy scratches, dents or a worn battery, but no cracked glass and everything works.',
+        phrase: 'shows visible wear but is fully functional',
+        valueFactor: 0.72,
+        allowedDefects: ['screen_scratches', 'body_wear', 'dents', 'battery_degraded', 'missing_accessories'],
+        marketplaceConditions: { ebay: '6000', facebook: 'used_fair', backmarket: 'Fair' },
+        aliases: ['Fair']
+      },
+      {
+        id: 'For Parts',
+        label: 'For Parts',
+        definition: 'Cracked glass or faults that stop the item from working fully; sold for repair or parts.',
+        phrase: 'is sold for parts or repair',
+        valueFactor: 0.35,
+        allowedDefects: [...DEFECT_IDS],
+        marketplaceConditions: { ebay: '7000', facebook: 'used_fair' },
+        aliases: ['Parts', 'For Parts or Not Working']
+      }
+    ]
+  },
+  simple: {
+    id: 'simple',
+    label: 'Like New / Good / Fair',
+    grades: [
+      {
+        id: 'Like New',
+        label: 'Like New',
+        definition: 'Barely any signs of use and everything works.',
+        phrase: 'is in like-new condition with barely any signs of use',
+        valueFactor: 1,
+        allowedDefects: ['body_wear'],
+        marketplaceConditions: { ebay: '3000', facebook: 'used_like_new', backmarket: 'Excellent' }
+      },
+      {
+        id: 'Good',
+        label: 'Good',
+        definition: 'Light signs of use and everything works.',
+        phrase: 'is in good working condition with only light signs of use',
+        valueFactor: 0.88,
+        allowedDefects: ['screen_scratches', 'body_wear', 'missing_accessories'],
+        marketplaceConditions: { ebay: '5000', facebook: 'used_good', backmarket: 'Good' }
+      },
+      {
+        id: 'Fair',
+        label: 'Fair',
+        definition: 'Visible wear, but fully functional.',
+        phrase: 'shows visible wear but is fully functional',
+        valueFactor: 0.72,
+        allowedDefects: DEFECT_IDS.filter(defect => defect !== 'faulty'),
+        marketplaceConditions: { ebay: '6000', facebook: 'used_fair', backmarket: 'Fair' }
+      }
+    ]
+  }
+}
+
+export const DEFAULT_GRADING_SCHEME = 'refurb'
+
+export function getGradingScheme(id?: string): GradingScheme {
+  return GRADING_SCHEMES[id ?? ''] ?? GRADING_SCHEMES[DEFAULT_GRADING_SCHEME]
+}
+
+// Looks up a grade by ID, label or alias, case-insensitively. Without a scheme every built-in scheme is
+// searched, the default first, so stored inputs keep resolving after the configured scheme changes.
+export function findGrade(condition: string, scheme?: GradingScheme): ConditionGrade | undefined {
+  const wanted = condition.trim().toLowerCase()
+  const schemes = scheme
+    ? [scheme]
+    : [getGradingScheme(), ...Object.values(GRADING_SCHEMES).filter(s => s.id !== DEFAULT_GRADING_SCHEME)]
+
+  for (const { grades } of schemes) {
+    const grade = grades.find(g => [g.id, g.label, ...(g.aliases ?? [])].some(name => name.toLowerCase() === wanted))
+    if (grade) return grade
+  }
+  return undefined
+}
+
+// Position of the grade in the scheme (0 is best), -1 when the scheme has no such grade
+export function gradeRank(condition: string, scheme: GradingScheme): number {
+  const grade = findGrade(condition, scheme)
+  return grade ? scheme.grades.indexOf(grade) : -1
+}
+
+// Best grade that tolerates every reported defect
+export function gradeForDefects(defects: readonly DefectId[], scheme: GradingScheme): ConditionGrade {
+  return scheme.grades.find(grade => defects.every(defect => grade.allowedDefects.includes(defect)))
+    ?? scheme.grades[scheme.grades.length - 1]
+}
+
+// Prompt lines describing the grade of the configured scheme and the ticked defects
+export function conditionInstructions({ condition, defects = [] }: FormInput, scheme: GradingScheme): string[] {
+  const grade = findGrade(condition, scheme)
+  if (!grade) return [`Condition: ${condition}`]
+
+  return [
+    `Condition: ${grade.label} - ${grade.definition}`,
+    `Reported defects: ${defects.length > 0 ? defects.map(defect => DEFECTS[defect]).join(', ') : 'none'}`,
+    'Describe the condition exactly as this grade defines it and mention the reported defects; never claim a better condition.'
+  ]
+}
+
+export interface ConditionGrading {
+  scheme: string
+  grade: string
+  label: string
+  // Condition value for the listing's marketplace, absent for the generic profile
+  marketplaceCondition?: string
+}
+
+// Resolves the input's grade for the result and warns when it does not fit the defect checklist
+// or the marketplace does not accept it
+export function gradeCondition(
+  { condition, defects = [], profile }: FormInput,
+  scheme: GradingScheme
+): { grading?: ConditionGrading; warnings: SuggestionWarning[] } {
+  const grade = findGrade(condition, scheme)
+  if (!grade) return { warnings: [] }
+
+  const warnings: SuggestionWarning[] = []
+  const marketplace = profile && profile !== 'generic' ? profile : undefined
+  const marketplaceCondition = marketplace && grade.marketplaceConditions[marketplace]
+
+  const fits = gradeForDefects(defects, scheme)
+  if (scheme.grades.indexOf(grade) < scheme.grades.indexOf(fits)) {
+    const disallowed = defects.filter(defect => !grade.allowedDefects.includes(defect))
+    warnings.push({
+      code: 'GRADE_DEFECT_MISMATCH',
+      message: `${grade.label} does not allow: ${disallowed.map(defect => DEFECTS[defect].toLowerCase()).join(', ')}. ` +
+        `The reported defects fit ${fits.label}.`
+    })
+  }
+
+  if (marketplace && !marketplaceCondition) {
+    warnings.push({
+      code: 'GRADE_NOT_ACCEPTED',
+      message: `${getListingProfile(marketplace).label} does not accept items graded ${grade.label}`
+    })
+  }
+
+  return {
+    grading: {
+      scheme: scheme.id,
+      grade: grade.id,
+      label: grade.label,
+      ...(marketplaceCondition && { marketplaceCondition })
+    },
+    warnings
+  }
+}
@@ -0,0 +1,131 @@
+import type { FormInput, SuggestionResult } from './types'
+
+export type GuardrailStage = 'input' | 'output'
+
+export type GuardrailRule =
+  | 'PROMPT_INJECTION'
+  | 'TOO_LONG'
+  | 'INVALID_CHARACTERS'
+  | 'URL'
+  | 'CONTACT_DETAILS'
+  | 'OFF_TOPIC'
+
+export interface GuardrailViolation {
+  stage: GuardrailStage
+  rule: GuardrailRule
+  field: string
+  message: string
+}
+
+// Error code returned when a guard blocks a suggestion
+export const GUARDRAIL_ERROR_CODES: Record<GuardrailStage, string> = {
+  input: 'INPUT_BLOCKED',
+  output: 'OUTPUT_BLOCKED'
+}
+
+// Same limits as the /api/suggest and /api/suggest/regenerate schemas
+export const MAX_INPUT_LENGTHS: Record<string, number> = {
+  name: 100,
+  notes: 500,
+  instruction: 200,
+  title: 200,
+  marketingText: 5000,
+  category: 300
+}
+
+// The prompt encloses the seller's text in this tag; input that opens or closes it is an injection attempt
+export const SELLER_INPUT_TAG = 'seller_input'
+
+// Phrasings that address the assistant instead of describing the item
+const INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|directions)\b/i,
+  /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+  /\byou are (now|no longer)\b/i,
+  /\bnew instructions?\s*:/i,
+  /\b(reveal|print|repeat|show)\b[^.\n]{0,30}\b(your|the|system)\s+(prompt|instructions)\b/i,
+  // A role label followed by an instruction; "System: Windows 11" describes the item
+  /^\s*(system|assistant)\s*:\s*(you|ignore|disregard|forget|reply|respond|answer|write|act|pretend|say|output|translate|from now)\b/im,
+  new RegExp(`<\\/?\\s*(system|assistant|user|${SELLER_INPUT_TAG})\\b[^>]*>`, 'i')
+]
+
+// Control characters other than tabs and newlines, and invisible or text-direction characters
+const INVALID_CHARACTER_RANGES: [number, number][] = [
+  [0x00, 0x08], [0x0b, 0x0c], [0x0e, 0x1f], [0x7f, 0x7f],
+  [0x200b, 0x200f], [0x202a, 0x202e], [0x2060, 0x2064], [0x2066, 0x2069], [0xfeff, 0xfeff]
+]
+
+const hasInvalidCharacters = (text: string) => [...text].some(char => {
+  const code = char.codePointAt(0) ?? 0
+  return INVALID_CHARACTER_RANGES.some(([from, to]) => code >= from && code <= to)
+})
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|shop|store|biz|info|me|ly)\b/i
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+// Digit groups split by spaces, dots or dashes, e.g. "+1 (555) 123-4567"; counted as a number from 9 digits
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]\d{3,4}[\s.-]?\d{3,4}\b/g
+const CONTACT_PHRASES = /\b(call|text|whatsapp|email|e-mail|dm|message|contact) me\b/i
+const ASSISTANT_PHRASES = /\bas an ai\b|\blanguage model\b|\bI cannot (help|assist)\b/i
+
+const NAME_STOPWORDS = new Set(['the', 'and', 'for', 'with', 'of', 'in', 'a', 'an'])
+
+// Checks the seller's free text before it is put into a prompt. A regeneration also sends the current title,
+// marketing text and category back from the client, so they are checked the same way.
+export function checkInput(
+  input: Pick<FormInput, 'name' | 'notes'> & { instruction?: string } & Partial<Pick<SuggestionResult, 'title' | 'marketingText' | 'category'>>
+): GuardrailViolation | null {
+  const { name, notes, instruction, title, marketingText, category } = input
+  for (const [field, value] of Object.entries({ name, notes, instruction, title, marketingText, category })) {
+    if (!value) continue
+    const violation = (rule: GuardrailRule, message: string): GuardrailViolation => ({ stage: 'input', rule, field, message })
+
+    if (value.length > MAX_INPUT_LENGTHS[field]) {
+      return violation('TOO_LONG', `The ${field} must be at most ${MAX_INPUT_LENGTHS[field]} characters`)
+    }
+    if (hasInvalidCharacters(value)) {
+      return violation('INVALID_CHARACTERS', `Control or invisible characters are not allowed in the ${field}`)
+    }
+    if (INJECTION_PATTERNS.some(pattern => pattern.test(value))) {
+      return violation('PROMPT_INJECTION', `Instructions for the assistant are not allowed in the ${field}; describe the item instead`)
+    }
+  }
+  return null
+}
+
+// Checks generated listing text before it is shown: no links, no contact details, and about the item
+export function checkOutput(
+  output: { title?: string; marketingText: string },
+  input: Pick<FormInput, 'name'>
+): GuardrailViolation | null {
+  const fields = { title: output.title, marketingText: output.marketingText }
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!value) continue
+    const violation = (rule: GuardrailRule, message: string): GuardrailViolation => ({ stage: 'output', rule, field, message })
+
+    // Before links, since an email address contains a domain
+    const phone = [...value.matchAll(PHONE_PATTERN)].some(([match]) => (match.match(/\d/g)?.length ?? 0) >= 9)
+    if (EMAIL_PATTERN.test(value) || phone || CONTACT_PHRASES.test(value)) {
+      return violation('CONTACT_DETAILS', 'The generated listing contains contact details')
+    }
+    if (URL_PATTERN.test(value)) {
+      return violation('URL', 'The generated listing contains a link')
+    }
+    if (ASSISTANT_PHRASES.test(value)) {
+      return violation('OFF_TOPIC', 'The generated listing is not a description of the item')
+    }
+  }
+
+  // At least one word of the item name has to appear; names made only of filler words are not checked
+  const words = (input.name.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => !NAME_STOPWORDS.has(word))
+  const text = `${output.title ?? ''} ${output.marketingText}`.toLowerCase()
+  if (words.length > 0 && !words.some(word => text.includes(word))) {
+    return { stage: 'output', rule: 'OFF_TOPIC', field: 'marketingText', message: 'The generated listing does not mention the item' }
+  }
+
+  return null
+}
+
+// Removes the prompt's delimiter tag from seller text, in case it reaches a prompt without passing checkInput
+export function stripDelimiters(text: string): string {
+  return text.replace(new RegExp(`<\\/?\\s*${SELLER_INPUT_TAG}[^>]*>`, 'gi'), '')
+}
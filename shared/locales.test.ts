@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { localeInstructions, localeWarnings, outputLocale, translateBreadcrumbs } from './locales'
+
+describe('locales', () => {
+  it('keeps the requested locale unless the provider cannot write it', () => {
+    expect(outputLocale(undefined)).toBe('en-US')
+    expect(outputLocale('de-DE')).toBe('de-DE')
+    expect(outputLocale('de-DE', ['en-US'])).toBe('en-US')
+  })
+
+  it('only adds prompt instructions for other languages', () => {
+    expect(localeInstructions('en-US')).toEqual([])
+    expect(localeInstructions('fr-FR')[0]).toContain('French (fr-FR)')
+  })
+
+  it('translates category breadcrumbs segment by segment', () => {
+    expect(translateBreadcrumbs('Electronics > Audio > Headphones', 'de-DE')).toEqual(['Elektronik', 'Audio', 'Kopfhörer'])
+    expect(translateBreadcrumbs('Electronics > Drones', 'fr-FR')).toEqual(['Électronique', 'Drones'])
+    expect(translateBreadcrumbs('Electronics > Video > Monitors')).toEqual(['Electronics', 'Video', 'Monitors'])
+  })
+
+  it('warns with a dedicated code when falling back to another language', () => {
+    expect(localeWarnings('es-ES', 'es-ES')).toEqual([])
+    expect(localeWarnings('es-ES', 'en-US')).toEqual([
+      expect.objectContaining({ code: 'LOCALE_NOT_SUPPORTED_OFFLINE' })
+    ])
+  })
+})
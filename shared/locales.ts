@@ -0,0 +1,46 @@
+import taxonomyLabels from './taxonomy-labels.json'
+import { breadcrumbs } from './taxonomy'
+import type { SuggestionWarning } from './types'
+
+export const SUPPORTED_LOCALES = ['en-US', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL'] as const
+
+export type Locale = typeof SUPPORTED_LOCALES[number]
+
+export const DEFAULT_LOCALE: Locale = 'en-US'
+
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  'en-US': 'English',
+  'de-DE': 'German',
+  'fr-FR': 'French',
+  'es-ES': 'Spanish',
+  'it-IT': 'Italian',
+  'nl-NL': 'Dutch'
+}
+
+const LABELS: Partial<Record<Locale, Record<string, string>>> = taxonomyLabels.labels
+
+// The requested locale when the provider can write it (providers without `locales` write any), else the default
+export function outputLocale(requested: Locale | undefined, supported?: readonly Locale[]): Locale {
+  const locale = requested ?? DEFAULT_LOCALE
+  return !supported || supported.includes(locale) ? locale : DEFAULT_LOCALE
+}
+
+// Prompt lines asking for output in `locale`; categories stay in English so they can be matched
+export function localeInstructions(locale: Locale = DEFAULT_LOCALE): string[] {
+  if (locale === DEFAULT_LOCALE) return []
+  return [`Write the title and marketingText in ${LANGUAGE_NAMES[locale]} (${locale}). Keep category values exactly as listed, in English.`]
+}
+
+// Breadcrumb labels for `path` in `locale`, segment by segment; unknown segments stay in English
+export function translateBreadcrumbs(path: string, locale: Locale = DEFAULT_LOCALE): string[] {
+  const labels = LABELS[locale] ?? {}
+  return breadcrumbs(path).map(segment => labels[segment] ?? segment)
+}
+
+export function localeWarnings(requested: Locale | undefined, used: Locale): SuggestionWarning[] {
+  if (!requested || requested === used) return []
+  return [{
+    code: 'LOCALE_NOT_SUPPORTED_OFFLINE',
+    message: `${LANGUAGE_NAMES[requested]} output needs an AI provider; the offline provider wrote ${LANGUAGE_NAMES[used]} instead`
+  }]
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { applyListingProfile, getListingProfile, LISTING_PROFILES, profileInstructions, validateListing } from './marketplaces'
+
+describe('listing profiles', () => {
+  it('falls back to the generic profile', () => {
+    expect(getListingProfile()).toBe(LISTING_PROFILES.generic)
+    expect(getListingProfile('nope')).toBe(LISTING_PROFILES.generic)
+  })
+
+  it('keeps the generic prompt instruction', () => {
+    expect(profileInstructions(LISTING_PROFILES.generic)).toEqual([
+      '1) Write a concise, compelling marketing description (max 80 words).'
+    ])
+    expect(profileInstructions(LISTING_PROFILES.ebay).join('\n')).toContain("Condition, What's Included")
+  })
+})
+
+describe('validateListing', () => {
+  it('reports forbidden words and missing sections', () => {
+    const violations = validateListing(
+      { title: 'iPhone 12 L@@K', marketingText: 'Condition: like new. Best price around!' },
+      LISTING_PROFILES.ebay
+    )
+    expect(violations.map(v => v.code)).toEqual(['FORBIDDEN_WORD', 'FORBIDDEN_WORD', 'MISSING_SECTION'])
+  })
+
+  it('matches forbidden words on word boundaries only', () => {
+    const violations = validateListing(
+      { title: 'Bestway speaker', marketingText: 'Condition: works.\nFunctionality: ok.\nWhat\'s Included: speaker.' },
+      LISTING_PROFILES.backmarket
+    )
+    expect(violations).toEqual([])
+  })
+})
+
+describe('applyListingProfile', () => {
+  it('trims the title and description to the profile limits', () => {
+    const profile = LISTING_PROFILES.backmarket
+    const sentence = 'Works well with no issues at all. '
+    const { title, marketingText, listingCheck } = applyListingProfile(
+      {
+        title: 'Apple iPhone 12 Pro 256GB Pacific Blue Unlocked Smartphone with Box',
+        marketingText: `Condition: Good.\nFunctionality: ${sentence.repeat(30)}\nWhat's Included: phone.`
+      },
+      profile,
+      'iPhone 12 Pro'
+    )
+    expect(title!.length).toBeLessThanOrEqual(60)
+    expect(title).toBe('Apple iPhone 12 Pro 256GB Pacific Blue Unlocked Smartphone')
+    expect(marketingText.match(/\S+/g)!.length).toBeLessThanOrEqual(150)
+    expect(marketingText.endsWith('.')).toBe(true)
+    // Trimming dropped the last section, which cannot be fixed automatically
+    expect(listingCheck).toMatchObject({
+      profile: 'backmarket',
+      passed: false,
+      adjusted: ['TITLE_TOO_LONG', 'DESCRIPTION_TOO_LONG'],
+      violations: [{ code: 'MISSING_SECTION' }]
+    })
+  })
+
+  it('uses the fallback title and omits titles for the generic profile', () => {
+    expect(applyListingProfile({ marketingText: 'Nice phone.' }, LISTING_PROFILES.facebook, 'Pixel 7')).toMatchObject({
+      title: 'Pixel 7',
+      listingCheck: { passed: true, adjusted: ['TITLE_MISSING'] }
+    })
+    expect(applyListingProfile({ title: 'x', marketingText: 'Nice phone.' }, LISTING_PROFILES.generic, 'Pixel 7'))
+      .not.toHaveProperty('title')
+  })
+})
@@ -0,0 +1,195 @@
+export type ListingProfileId = 'generic' | 'ebay' | 'facebook' | 'backmarket'
+
+export interface ListingProfile {
+  id: ListingProfileId
+  label: string
+  // Maximum title length in characters; profiles without one do not get a title
+  titleMaxLength?: number
+  descriptionMaxWords: number
+  tone: string
+  // Phrases the marketplace rejects or penalizes, matched case-insensitively on word boundaries
+  forbiddenWords: string[]
+  // Headings the description must contain, each starting its own line as "Heading:"
+  requiredSections: string[]
+}
+
+export const LISTING_PROFILES: Record<ListingProfileId, ListingProfile> = {
+  generic: {
+    id: 'generic',
+    label: 'General',
+    descriptionMaxWords: 80,
+    tone: 'concise, compelling',
+    forbiddenWords: [],
+    requiredSections: []
+  },
+  ebay: {
+    id: 'ebay',
+    label: 'eBay',
+    titleMaxLength: 80,
+    descriptionMaxWords: 250,
+    tone: 'factual and keyword-rich, leading with brand, model and key specs',
+    forbiddenWords: ['l@@k', 'wow', 'brand new', 'best price', 'contact me', 'email me', 'call me'],
+    requiredSections: ['Condition', "What's Included"]
+  },
+  facebook: {
+    id: 'facebook',
+    label: 'Facebook Marketplace',
+    titleMaxLength: 100,
+    descriptionMaxWords: 100,
+    tone: 'friendly and conversational',
+    forbiddenWords: ['paypal', 'venmo', 'cash app', 'zelle', 'shipping only'],
+    requiredSections: []
+  },
+  backmarket: {
+    id: 'backmarket',
+    label: 'Back Market',
+    titleMaxLength: 60,
+    descriptionMaxWords: 150,
+    tone: 'neutral and professional, without marketing superlatives',
+    forbiddenWords: ['brand new', 'new in box', 'best', 'perfect', 'flawless', 'warranty'],
+    requiredSections: ['Condition', 'Functionality', "What's Included"]
+  }
+}
+
+export const LISTING_PROFILE_IDS = Object.keys(LISTING_PROFILES) as [ListingProfileId, ...ListingProfileId[]]
+
+export const DEFAULT_LISTING_PROFILE: ListingProfileId = 'generic'
+
+export function getListingProfile(id?: string): ListingProfile {
+  return LISTING_PROFILES[id as ListingProfileId] ?? LISTING_PROFILES[DEFAULT_LISTING_PROFILE]
+}
+
+// Prompt lines describing the writing task for a profile
+export function profileInstructions(profile: ListingProfile): string[] {
+  if (!profile.titleMaxLength && profile.requiredSections.length === 0 && profile.forbiddenWords.length === 0) {
+    return [`1) Write a ${profile.tone} marketing description (max ${profile.descriptionMaxWords} words).`]
+  }
+
+  const lines = [
+    profile.titleMaxLength
+      ? `1) Write a ${profile.label} listing: a title (max ${profile.titleMaxLength} characters, JSON key title) ` +
+        `and a description (max ${profile.descriptionMaxWords} words, JSON key marketingText).`
+      : `1) Write a ${profile.label} listing description (max ${profile.descriptionMaxWords} words).`,
+    `   Tone: ${profile.tone}.`
+  ]
+  if (profile.requiredSections.length > 0) {
+    lines.push(`   Structure the description with these sections, each starting its own line as "Heading:": ${profile.requiredSections.join(', ')}.`)
+  }
+  if (profile.forbiddenWords.length > 0) {
+    lines.push(`   Never use these words or phrases: ${profile.forbiddenWords.join(', ')}.`)
+  }
+  return lines
+}
+
+export type ListingViolationCode =
+  | 'TITLE_MISSING'
+  | 'TITLE_TOO_LONG'
+  | 'DESCRIPTION_TOO_LONG'
+  | 'FORBIDDEN_WORD'
+  | 'MISSING_SECTION'
+
+export interface ListingViolation {
+  code: ListingViolationCode
+  message: string
+}
+
+export interface ListingCheck {
+  profile: ListingProfileId
+  passed: boolean
+  // Rules the final text still breaks
+  violations: ListingViolation[]
+  // Rules the generated text broke that were fixed by trimming it
+  adjusted: ListingViolationCode[]
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0
+
+export function validateListing(
+  { title, marketingText }: { title?: string; marketingText: string },
+  profile: ListingProfile
+): ListingViolation[] {
+  const violations: ListingViolation[] = []
+
+  if (profile.titleMaxLength) {
+    if (!title?.trim()) {
+      violations.push({ code: 'TITLE_MISSING', message: `${profile.label} listings need a title` })
+    } else if (title.length > profile.titleMaxLength) {
+      violations.push({
+        code: 'TITLE_TOO_LONG',
+        message: `Title is ${title.length} characters, ${profile.label} allows ${profile.titleMaxLength}`
+      })
+    }
+  }
+
+  const words = countWords(marketingText)
+  if (words > profile.descriptionMaxWords) {
+    violations.push({
+      code: 'DESCRIPTION_TOO_LONG',
+      message: `Description is ${words} words, ${profile.label} allows ${profile.descriptionMaxWords}`
+    })
+  }
+
+  const text = `${title ?? ''}\n${marketingText}`
+  for (const word of profile.forbiddenWords) {
+    // \b only works next to word characters, so phrases like "l@@k" are matched on whitespace instead
+    if (new RegExp(`(^|[^\\w@])${escapeRegExp(word)}($|[^\\w@])`, 'i').test(text)) {
+      violations.push({ code: 'FORBIDDEN_WORD', message: `"${word}" is not allowed on ${profile.label}` })
+    }
+  }
+
+  for (const section of profile.requiredSections) {
+    if (!new RegExp(`^\\s*${escapeRegExp(section)}\\s*:`, 'im').test(marketingText)) {
+      violations.push({ code: 'MISSING_SECTION', message: `Missing the "${section}" section` })
+    }
+  }
+
+  return violations
+}
+
+function truncateTitle(title: string, maxLength: number): string {
+  if (title.length <= maxLength) return title
+  const cut = title.slice(0, maxLength + 1)
+  const boundary = cut.lastIndexOf(' ')
+  return (boundary > maxLength / 2 ? cut.slice(0, boundary) : title.slice(0, maxLength)).replace(/[\s,;:-]+$/, '')
+}
+
+// Keeps whole sentences where possible so the description does not end mid-thought
+function truncateDescription(text: string, maxWords: number): string {
+  const words = [...text.matchAll(/\S+/g)]
+  if (words.length <= maxWords) return text
+
+  const last = words[maxWords - 1]
+  const cut = text.slice(0, (last.index ?? 0) + last[0].length)
+  const sentenceEnd = Math.max(...[...cut.matchAll(/[.!?](?=\s|$)/g)].map(m => m.index ?? -1), -1)
+  return sentenceEnd > cut.length / 2 ? cut.slice(0, sentenceEnd + 1) : `${cut.replace(/[\s,;:-]+$/, '')}…`
+}
+
+// Post-validates generated text against a profile: length limits are enforced by trimming, a missing
+// title falls back to `fallbackTitle`, and anything that cannot be fixed is reported in `listingCheck`
+export function applyListingProfile(
+  listing: { title?: string; marketingText: string },
+  profile: ListingProfile,
+  fallbackTitle: string
+): { title?: string; marketingText: string; listingCheck: ListingCheck } {
+  const found = validateListing(listing, profile)
+
+  let title = profile.titleMaxLength ? listing.title?.trim() || fallbackTitle.trim() : undefined
+  if (title && profile.titleMaxLength) title = truncateTitle(title, profile.titleMaxLength)
+  const marketingText = truncateDescription(listing.marketingText, profile.descriptionMaxWords)
+
+  const violations = validateListing({ title, marketingText }, profile)
+  const remaining = new Set(violations.map(v => v.code))
+
+  return {
+    ...(title !== undefined && { title }),
+    marketingText,
+    listingCheck: {
+      profile: profile.id,
+      passed: violations.length === 0,
+      violations,
+      adjusted: [...new Set(found.map(v => v.code))].filter(code => !remaining.has(code))
+    }
+  }
+}
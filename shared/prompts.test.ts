@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { getGradingScheme } from './grading'
+import { assignPromptVersion, buildSuggestionPrompt, getPromptTemplate, parsePromptWeights, renderPrompt } from './prompts'
+import type { PromptTemplate } from './prompts'
+
+const refurb = getGradingScheme('refurb')
+
+const template: PromptTemplate = { id: 'test', version: 'v1', lines: ['Item: {{name}}', '{{extra}}', '', 'Done'] }
+
+describe('prompt templates', () => {
+  it('renders variables and leaves out lines that render to nothing', () => {
+    expect(renderPrompt(template, { name: 'iPhone', extra: [] })).toBe('Item: iPhone\n\nDone')
+    expect(renderPrompt(template, { name: 'iPhone', extra: ['a', 'b'] })).toBe('Item: iPhone\na\nb\n\nDone')
+    expect(() => renderPrompt(template, { name: 'iPhone' })).toThrow(/unknown variable: extra/)
+  })
+
+  it('renders the suggestion prompt from the newest version by default', () => {
+    const input = { name: 'iPhone 12', condition: 'B', notes: 'Unlocked' }
+    const prompt = buildSuggestionPrompt(input, ['Electronics', 'Electronics > Computers'], refurb)
+
+    expect(prompt).toBe(buildSuggestionPrompt(input, ['Electronics', 'Electronics > Computers'], refurb, 'v8'))
+    expect(prompt).toContain('<seller_input>\nItem: iPhone 12\nNotes: Unlocked\n</seller_input>\nReturn JSON only.')
+
+    const v7 = buildSuggestionPrompt(input, ['Electronics', 'Electronics > Computers'], refurb, 'v7')
+    expect(v7).toContain('Allowed categories: Electronics | Electronics > Computers\nItem: iPhone 12\nCondition: Grade B')
+    expect(v7).toContain('Notes: Unlocked\nReturn JSON only.')
+    expect(() => getPromptTemplate('suggestion', 'v0')).toThrow(/Unknown prompt template: suggestion@v0/)
+  })
+
+  it('assigns versions in proportion to their weights', () => {
+    const { weights, invalid } = parsePromptWeights('v7:90, v8:10, v9:0, v1', ['v7', 'v8'])
+    expect(weights).toEqual([{ version: 'v7', weight: 90 }, { version: 'v8', weight: 10 }])
+    expect(invalid).toEqual(['v9:0', 'v1'])
+
+    expect(assignPromptVersion(weights, () => 0.5)).toBe('v7')
+    expect(assignPromptVersion(weights, () => 0.95)).toBe('v8')
+    expect(parsePromptWeights(undefined, ['v7', 'v8']).weights).toEqual([{ version: 'v8', weight: 1 }])
+  })
+})
@@ -0,0 +1,111 @@
+import { conditionInstructions } from './grading'
+import type { GradingScheme } from './grading'
+import { stripDelimiters } from './guardrails'
+import { localeInstructions } from './locales'
+import { getListingProfile, profileInstructions } from './marketplaces'
+import type { FormInput } from './types'
+import suggestionV7 from './prompts/suggestion.v7.json'
+import suggestionV8 from './prompts/suggestion.v8.json'
+
+// A versioned prompt from shared/prompts/. Change a prompt by adding a new version rather than editing
+// one in place: the version is part of the suggestion cache key and recorded on every result.
+export type PromptTemplate = {
+  id: string
+  version: string
+  description?: string
+  // "{{variable}}" is replaced by its value; a line that renders to nothing is left out
+  lines: string[]
+}
+
+// Lists render one item per line
+export type PromptVariables = Record<string, string | string[]>
+
+// Relative share of requests that get a template version
+export type PromptWeight = { version: string; weight: number }
+
+export const SUGGESTION_PROMPT = 'suggestion'
+
+// Newest version of each template last; it is the one used without an experiment
+export const PROMPT_TEMPLATES: PromptTemplate[] = [suggestionV7, suggestionV8]
+
+export function promptVersions(id: string, templates: PromptTemplate[] = PROMPT_TEMPLATES): string[] {
+  return templates.filter(template => template.id === id).map(template => template.version)
+}
+
+export function getPromptTemplate(id: string, version?: string, templates: PromptTemplate[] = PROMPT_TEMPLATES): PromptTemplate {
+  const versions = templates.filter(template => template.id === id)
+  const template = version ? versions.find(candidate => candidate.version === version) : versions[versions.length - 1]
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${id}${version ? `@${version}` : ''}`)
+  }
+  return template
+}
+
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): string {
+  const value = (name: string) => {
+    const variable = variables[name]
+    if (variable === undefined) {
+      throw new Error(`Prompt ${template.id}@${template.version} uses an unknown variable: ${name}`)
+    }
+    return Array.isArray(variable) ? variable.join('\n') : variable
+  }
+
+  return template.lines.flatMap(line => {
+    const rendered = line.replace(/\{\{(\w+)\}\}/g, (_, name: string) => value(name))
+    return line && !rendered ? [] : [rendered]
+  }).join('\n')
+}
+
+// The suggestion prompt, shared by the backend and the client-side fallback
+export function buildSuggestionPrompt(
+  input: FormInput,
+  categories: string[],
+  scheme: GradingScheme,
+  version?: string
+): string {
+  return renderPrompt(getPromptTemplate(SUGGESTION_PROMPT, version), {
+    profileInstructions: profileInstructions(getListingProfile(input.profile)),
+    localeInstructions: localeInstructions(input.locale),
+    categories: categories.join(' | '),
+    name: stripDelimiters(input.name),
+    conditionInstructions: conditionInstructions(input, scheme),
+    notes: stripDelimiters(input.notes ?? '')
+  })
+}
+
+// Parses an experiment such as "v7:90,v8:10" (a version without a weight counts 1). Entries naming
+// other versions or without a positive weight are returned as `invalid`; without any valid entry
+// every request gets the newest version.
+export function parsePromptWeights(
+  spec: string | undefined,
+  versions: string[]
+): { weights: PromptWeight[]; invalid: string[] } {
+  const weights: PromptWeight[] = []
+  const invalid: string[] = []
+
+  for (const entry of (spec ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [version, weight = '1'] = entry.split(':').map(part => part.trim())
+    const share = Number(weight)
+    if (versions.includes(version) && Number.isFinite(share) && share > 0) {
+      weights.push({ version, weight: share })
+    } else {
+      invalid.push(entry)
+    }
+  }
+
+  if (weights.length === 0 && versions.length > 0) {
+    weights.push({ version: versions[versions.length - 1], weight: 1 })
+  }
+  return { weights, invalid }
+}
+
+// Picks the version for one request in proportion to the weights
+export function assignPromptVersion(weights: PromptWeight[], random: () => number = Math.random): string {
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0)
+  let point = random() * total
+  for (const { version, weight } of weights) {
+    point -= weight
+    if (point < 0) return version
+  }
+  return weights[weights.length - 1].version
+}
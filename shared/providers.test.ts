@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { GRADING_SCHEMES } from './grading'
+import { LISTING_PROFILES, validateListing } from './marketplaces'
+import { createProvider, GeminiProvider, LocalProvider, ProviderError, safeParseJson } from './providers'
+
+const categories = [
+  'Electronics',
+  'Electronics > Audio > Headphones',
+  'Electronics > Communications > Telephony > Mobile Phone Accessories',
+  'Electronics > Communications > Telephony > Mobile Phones'
+]
+
+describe('provider selection', () => {
+  it('defaults to gemini and requires an API key', () => {
+    expect(() => createProvider({})).toThrow(ProviderError)
+    expect(createProvider({ apiKey: 'test-key' })).toBeInstanceOf(GeminiProvider)
+  })
+
+  it('selects the local provider without a key', () => {
+    expect(createProvider({ provider: 'local' })).toBeInstanceOf(LocalProvider)
+  })
+
+  it('rejects unknown providers', () => {
+    expect(() => createProvider({ provider: 'nope' })).toThrow(/Unknown LLM provider/)
+  })
+})
+
+describe('local provider', () => {
+  const provider = new LocalProvider()
+
+  it('returns deterministic marketing text and category', async () => {
+    const request = {
+      prompt: '',
+      input: { name: 'iPhone 12 Pro', condition: 'Good' as const, notes: '85% battery' },
+      categories
+    }
+    const first = await provider.generateJson(request)
+    const second = await provider.generateJson(request)
+    expect(first).toEqual(second)
+    expect(first.data?.category).toBe('Electronics > Communications > Telephony > Mobile Phones')
+    expect(first.data?.marketingText).toContain('iPhone 12 Pro')
+    expect(first.data?.marketingText).toContain('85% battery.')
+  })
+
+  it('prefers accessories over phones', async () => {
+    const { data } = await provider.generateJson({
+      prompt: '',
+      input: { name: 'iPhone 13 leather case', condition: 'Like New' },
+      categories
+    })
+    expect(data?.category).toBe('Electronics > Communications > Telephony > Mobile Phone Accessories')
+  })
+
+  it('falls back to the first category', async () => {
+    const { data } = await provider.generateJson({
+      prompt: '',
+      input: { name: 'Mystery gadget', condition: 'Fair' },
+      categories
+    })
+    expect(data?.category).toBe('Electronics')
+  })
+
+  it('writes a title and the required sections for marketplace profiles', async () => {
+    const { data } = await provider.generateJson({
+      prompt: '',
+      input: { name: 'PS5', condition: 'Good', notes: 'Comes with controller', profile: 'ebay' },
+      categories
+    })
+    const listing = { title: data?.title as string, marketingText: data?.marketingText as string }
+    expect(validateListing(listing, LISTING_PROFILES.ebay)).toEqual([])
+    expect(listing.marketingText).toContain("What's Included: PS5, controller.")
+  })
+
+  it('describes the condition with the configured grading scheme', async () => {
+    const input = { name: 'iPhone 12', condition: 'Like New' }
+    const simple = createProvider({ provider: 'local', gradingScheme: GRADING_SCHEMES.simple })
+    expect(await simple.generateText({ prompt: '', input, categories })).toContain('This iPhone 12 is in like-new condition')
+    expect(await provider.generateText({ prompt: '', input, categories })).toContain('This iPhone 12 is in mint condition')
+  })
+})
+
+describe('json parsing', () => {
+  it('strips code fences', () => {
+    expect(safeParseJson('```json\n{"a":1}\n```')).toEqual({ a: 1 })
+    expect(safeParseJson('not json')).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { FormInput } from './types'
+import { extractAttributes } from './attributes'
+import { classifyInput } from './classifier'
+import { DEFECTS, findGrade, getGradingScheme } from './grading'
+import type { GradingScheme } from './grading'
+import { DEFAULT_LOCALE } from './locales'
+import type { Locale } from './locales'
+import { getListingProfile } from './marketplaces'
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash'
+
+export type ProviderName = 'gemini' | 'local' | 'replay'
+
+export interface ProviderConfig {
+  provider?: string
+  apiKey?: string
+  model?: string
+  // Set to 'local' to fall back to the offline provider when the configured one is unavailable
+  fallback?: string
+  // Condition grades the offline provider describes; the default scheme when omitted
+  gradingScheme?: GradingScheme
+}
+
+export interface GenerationRequest {
+  prompt: string
+  input: FormInput
+  categories: string[]
+}
+
+export interface JsonGeneration {
+  raw: string
+  data: Record<string, unknown> | null
+}
+
+export interface LlmProvider {
+  readonly name: ProviderName
+  readonly model: string
+  // Languages the provider can write; any language when omitted
+  readonly locales?: readonly Locale[]
+  generateText(request: GenerationRequest): Promise<string>
+  generateJson(request: GenerationRequest): Promise<JsonGeneration>
+  // Yields the raw JSON response in chunks as the model produces it
+  streamJson(request: GenerationRequest): AsyncIterable<string>
+}
+
+export class ProviderError extends Error {
+  public code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    this.name = 'ProviderError'
+    this.code = code
+  }
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini'
+  readonly model: string
+  private client: GoogleGenerativeAI
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_MODEL) {
+    this.client = new GoogleGenerativeAI(apiKey)
+    this.model = model
+  }
+
+  async generateText({ prompt }: GenerationRequest): Promise<string> {
+    const model = this.client.getGenerativeModel({ model: this.model })
+    const result = await model.generateContent(prompt)
+    return result.response.text().trim()
+  }
+
+  async generateJson(request: GenerationRequest): Promise<JsonGeneration> {
+    const raw = await this.generateText(request)
+    return { raw, data: safeParseJson(raw) }
+  }
+
+  async *streamJson({ prompt }: GenerationRequest): AsyncIterable<string> {
+    const model = this.client.getGenerativeModel({ model: this.model })
+    const result = await model.generateContentStream(prompt)
+    for await (const chunk of result.stream) {
+      const text = chunk.text()
+      if (text) yield text
+    }
+  }
+}
+
+// Rule-based provider for offline development, demos and CI. Output only depends on the input.
+export class LocalProvider implements LlmProvider {
+  readonly name = 'local'
+  readonly model = 'local-rules'
+  readonly locales = [DEFAULT_LOCALE]
+  private scheme: GradingScheme
+
+  constructor(scheme: GradingScheme = getGradingScheme()) {
+    this.scheme = scheme
+  }
+
+  async generateText({ input }: GenerationRequest): Promise<string> {
+    const name = input.name.trim()
+    const notes = input.notes?.trim()
+    const profile = getListingProfile(input.profile)
+    const defects = input.defects?.map(defect => DEFECTS[defect].toLowerCase()) ?? []
+    const condition = [
+      `This ${name} ${findGrade(input.condition, this.scheme)?.phrase ?? `is in ${input.condition} condition`}.`,
+      defects.length > 0 ? `Known issues: ${defects.join(', ')}.` : ''
+    ].filter(Boolean).join(' ')
+    const sellerNotes = notes ? `Seller notes: ${/[.!?]$/.test(notes) ? notes : `${notes}.`}` : ''
+
+    if (profile.requiredSections.length > 0) {
+      const included = extractAttributes(input).accessories
+      const sections: Record<string, string> = {
+        'Condition': [condition, sellerNotes].filter(Boolean).join(' '),
+        'Functionality': 'Tested and fully working.',
+        "What's Included": included ? `${name}, ${included.join(', ')}.` : `${name} only.`
+      }
+      return profile.requiredSections
+        .map(section => `${section}: ${sections[section] ?? sellerNotes}`)
+        .join('\n')
+    }
+
+    return [condition, sellerNotes, 'Tested and ready for its next owner, a smart way to save money and buy sustainably.']
+      .filter(Boolean)
+      .join(' ')
+  }
+
+  async generateJson(request: GenerationRequest): Promise<JsonGeneration> {
+    const [best, ...others] = classifyInput(request.input, request.categories)
+    const profile = getListingProfile(request.input.profile)
+    const data = {
+      ...(profile.titleMaxLength && { title: `${request.input.name.trim()} - ${request.input.condition}` }),
+      marketingText: await this.generateText(request),
+      category: best?.category ?? request.categories[0] ?? '',
+      alternativeCategories: others.slice(0, 2).map(c => c.category),
+      attributes: extractAttributes(request.input)
+    }
+    return { raw: JSON.stringify(data), data }
+  }
+
+  async *streamJson(request: GenerationRequest): AsyncIterable<string> {
+    const { raw } = await this.generateJson(request)
+    // Emit word-sized chunks to mimic a streaming model
+    for (const chunk of raw.match(/\S+\s*/g) ?? []) {
+      yield chunk
+    }
+  }
+}
+
+export function createProvider(config: ProviderConfig): LlmProvider {
+  try {
+    return createConfiguredProvider(config)
+  } catch (error) {
+    if (error instanceof ProviderError && config.fallback === 'local') {
+      return new LocalProvider(config.gradingScheme)
+    }
+    throw error
+  }
+}
+
+function createConfiguredProvider(config: ProviderConfig): LlmProvider {
+  const provider = config.provider || 'gemini'
+
+  switch (provider) {
+    case 'local':
+      return new LocalProvider(config.gradingScheme)
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new ProviderError('Missing API key for the Gemini provider', 'MISSING_API_KEY')
+      }
+      return new GeminiProvider(config.apiKey, config.model || DEFAULT_GEMINI_MODEL)
+    default:
+      throw new ProviderError(`Unknown LLM provider: ${provider}`, 'UNKNOWN_PROVIDER')
+  }
+}
+
+export function safeParseJson(text: string): Record<string, unknown> | null {
+  try {
+    const trimmed = text
+      .replace(/^```json\n?/i, '')
+      .replace(/^```\n?/i, '')
+      .replace(/```$/i, '')
+      .trim()
+
+    if (!trimmed) return null
+
+    return JSON.parse(trimmed)
+  } catch {
+    return null
+  }
+}
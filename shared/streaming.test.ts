@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { JsonFieldStreamReader } from './streaming'
+
+function readAll(chunks: string[]): string {
+  const reader = new JsonFieldStreamReader('marketingText')
+  return chunks.map(chunk => reader.push(chunk)).join('')
+}
+
+describe('streamed field decoding', () => {
+  it('emits the field value as chunks arrive', () => {
+    const reader = new JsonFieldStreamReader('marketingText')
+    expect(reader.push('```json\n{"marketing')).toBe('')
+    expect(reader.push('Text": "Great ')).toBe('Great ')
+    expect(reader.push('phone", "category": "Phones"}')).toBe('phone')
+    expect(reader.done).toBe(true)
+  })
+
+  it('decodes escapes split across chunks', () => {
+    expect(readAll(['{"marketingText":"Say \\', '"hi\\', '" \\u00', 'e9\\n"}'])).toBe('Say "hi" é\n')
+  })
+
+  it('ignores other fields', () => {
+    expect(readAll(['{"category":"Phones","marketingText":"Text"}'])).toBe('Text')
+  })
+})
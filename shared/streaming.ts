@@ -0,0 +1,68 @@
+const ESCAPES: Record<string, string> = {
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+  'b': '\b',
+  'f': '\f'
+}
+
+// Incrementally decodes the string value of one field from a JSON object that arrives in chunks,
+// so `marketingText` can be shown while the model is still writing the rest of the response.
+export class JsonFieldStreamReader {
+  private buffer = ''
+  private position = -1
+  private complete = false
+  private pattern: RegExp
+
+  constructor(field: string) {
+    this.pattern = new RegExp(`"${field}"\\s*:\\s*"`)
+  }
+
+  get done(): boolean {
+    return this.complete
+  }
+
+  // Appends a chunk and returns the newly decoded part of the field value
+  push(chunk: string): string {
+    this.buffer += chunk
+    if (this.complete) return ''
+
+    if (this.position < 0) {
+      const match = this.pattern.exec(this.buffer)
+      if (!match) return ''
+      this.position = match.index + match[0].length
+    }
+
+    let decoded = ''
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position]
+
+      if (char === '"') {
+        this.complete = true
+        break
+      }
+
+      if (char !== '\\') {
+        decoded += char
+        this.position++
+        continue
+      }
+
+      // Wait for the rest of an escape sequence split across chunks
+      const next = this.buffer[this.position + 1]
+      if (next === undefined) break
+
+      if (next === 'u') {
+        const hex = this.buffer.slice(this.position + 2, this.position + 6)
+        if (hex.length < 4) break
+        decoded += String.fromCharCode(parseInt(hex, 16))
+        this.position += 6
+      } else {
+        decoded += ESCAPES[next] ?? next
+        this.position += 2
+      }
+    }
+
+    return decoded
+  }
+}
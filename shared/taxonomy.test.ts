@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { buildCategoryTree, CATEGORIES, describeCategory, rankCategories, TaxonomyIndex } from './taxonomy'
+
+describe('category tree', () => {
+  it('nests paths under shared parents', () => {
+    const tree = buildCategoryTree([
+      'Electronics',
+      'Electronics > Audio > Headphones',
+      'Electronics > Audio > Speakers'
+    ])
+    expect(tree).toHaveLength(1)
+    expect(tree[0].children.map(n => n.name)).toEqual(['Audio'])
+    expect(tree[0].children[0].children.map(n => n.path)).toEqual([
+      'Electronics > Audio > Headphones',
+      'Electronics > Audio > Speakers'
+    ])
+  })
+
+  it('contains every allowed category', () => {
+    const paths: string[] = []
+    const walk = (nodes: ReturnType<typeof buildCategoryTree>) => nodes.forEach(n => {
+      paths.push(n.path)
+      walk(n.children)
+    })
+    walk(buildCategoryTree())
+    expect(CATEGORIES.every(c => paths.includes(c))).toBe(true)
+  })
+})
+
+describe('taxonomy index', () => {
+  const index = TaxonomyIndex.parse([
+    '# Google_Product_Taxonomy_Version: 2021-09-21',
+    '1 - Animals & Pet Supplies',
+    '222 - Electronics',
+    '262 - Electronics > Communications',
+    '1801 - Electronics > Communications > Telephony',
+    '264 - Electronics > Communications > Telephony > Mobile Phone Accessories',
+    '267 - Electronics > Communications > Telephony > Mobile Phones',
+    '278 - Electronics > Computers',
+    '328 - Electronics > Computers > Laptops'
+  ].join('\n'))
+
+  it('indexes entries by id and path', () => {
+    expect(index.size).toBe(8)
+    expect(index.getById(267)?.path).toBe('Electronics > Communications > Telephony > Mobile Phones')
+    expect(index.getByPath('electronics > computers > laptops')?.id).toBe(328)
+  })
+
+  it('lists leaves under a root', () => {
+    expect(index.leaves('Electronics').map(e => e.id)).toEqual([264, 267, 328])
+    expect(index.leaves('Nope')).toEqual([])
+  })
+
+  it('builds a tree with ids', () => {
+    const [root] = index.tree('Electronics > Computers')
+    expect(root).toMatchObject({ id: 278, children: [{ id: 328, name: 'Laptops' }] })
+  })
+
+  it('describes a category with breadcrumbs and id', () => {
+    expect(describeCategory('Electronics > Computers > Laptops', index)).toEqual({
+      category: 'Electronics > Computers > Laptops',
+      categoryPath: 'Electronics > Computers > Laptops',
+      categoryId: 328,
+      breadcrumbs: ['Electronics', 'Computers', 'Laptops']
+    })
+  })
+})
+
+describe('rankCategories', () => {
+  it('ranks an exact path first with the highest confidence', () => {
+    const [best] = rankCategories('Electronics > Computers > Laptops', CATEGORIES)
+    expect(best).toMatchObject({ category: 'Electronics > Computers > Laptops', reason: 'exact_match', confidence: 0.95 })
+  })
+
+  it('prefers the most specific path contained in the answer', () => {
+    const [best] = rankCategories('Category: Electronics > Audio > Headphones.', CATEGORIES)
+    expect(best).toMatchObject({ category: 'Electronics > Audio > Headphones', reason: 'substring_match' })
+  })
+
+  it('falls back to similarity for answers outside the list', () => {
+    const [best] = rankCategories('Smartphone', CATEGORIES)
+    expect(best.category).toBe('Electronics > Communications > Telephony > Mobile Phones')
+    expect(best.reason).toBe('similarity_fallback')
+    expect(best.confidence).toBeLessThan(0.85)
+  })
+
+  it('includes the model alternatives below the chosen category', () => {
+    const ranked = rankCategories('Electronics > Audio > Headphones', CATEGORIES, {
+      alternatives: ['Electronics > Wearables > Smartwatches', 'Not a category']
+    })
+    expect(ranked.slice(0, 2).map(c => c.category)).toEqual([
+      'Electronics > Audio > Headphones',
+      'Electronics > Wearables > Smartwatches'
+    ])
+    expect(ranked[1].reason).toBe('model_choice')
+  })
+
+  it('never picks an excluded category, even when the answer names it', () => {
+    const phones = 'Electronics > Communications > Telephony > Mobile Phones'
+    const ranked = rankCategories(phones, CATEGORIES, { context: 'iPhone 12 smartphone', exclude: [phones] })
+    expect(ranked.length).toBeGreaterThan(0)
+    expect(ranked.map(c => c.category)).not.toContain(phones)
+  })
+
+  it('returns the default category with low confidence when nothing matches', () => {
+    expect(rankCategories('', CATEGORIES)).toEqual([{ category: CATEGORIES[0], categoryId: undefined, confidence: 0.1, reason: 'default' }])
+  })
+
+  it('respects the limit and attaches ids from the index', () => {
+    const index = TaxonomyIndex.parse('328 - Electronics > Computers > Laptops')
+    const ranked = rankCategories('laptop', CATEGORIES, { context: 'MacBook Air notebook', index, limit: 2 })
+    expect(ranked.length).toBeLessThanOrEqual(2)
+    expect(ranked[0]).toMatchObject({ category: 'Electronics > Computers > Laptops', categoryId: 328 })
+  })
+})
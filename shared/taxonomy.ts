@@ -0,0 +1,226 @@
+import taxonomy from './taxonomy-subset.json'
+import { getClassifier } from './classifier'
+
+export interface CategoryNode {
+  id?: number
+  name: string
+  path: string
+  children: CategoryNode[]
+}
+
+export interface TaxonomyEntry {
+  id: number
+  name: string
+  path: string
+  children: TaxonomyEntry[]
+}
+
+export interface CategoryDetails {
+  category: string
+  categoryPath: string
+  categoryId?: number
+  breadcrumbs: string[]
+}
+
+export const TAXONOMY_SOURCE: string = taxonomy.source
+
+// Single list of allowed categories used by the prompt, the matcher and /api/categories
+export const CATEGORIES: string[] = taxonomy.categories
+
+export function buildCategoryTree(categories: string[] = CATEGORIES): CategoryNode[] {
+  const roots: CategoryNode[] = []
+
+  for (const category of categories) {
+    let level = roots
+    let path = ''
+
+    for (const name of category.split('>').map(s => s.trim())) {
+      path = path ? `${path} > ${name}` : name
+      let node = level.find(n => n.name === name)
+      if (!node) {
+        node = { name, path, children: [] }
+        level.push(node)
+      }
+      level = node.children
+    }
+  }
+
+  return roots
+}
+
+export function breadcrumbs(path: string): string[] {
+  return path.split('>').map(s => s.trim()).filter(Boolean)
+}
+
+// Hierarchical index over Google's `taxonomy-with-ids` file (lines of the form `267 - A > B > C`)
+export class TaxonomyIndex {
+  readonly roots: TaxonomyEntry[] = []
+  private byId = new Map<number, TaxonomyEntry>()
+  private byPath = new Map<string, TaxonomyEntry>()
+
+  static parse(text: string): TaxonomyIndex {
+    const index = new TaxonomyIndex()
+
+    for (const line of text.split(/\r?\n/)) {
+      const match = /^(\d+)\s+-\s+(.+)$/.exec(line.trim())
+      if (match) index.add(Number(match[1]), match[2])
+    }
+
+    return index
+  }
+
+  get size(): number {
+    return this.byId.size
+  }
+
+  add(id: number, path: string): void {
+    const segments = breadcrumbs(path)
+    const entry: TaxonomyEntry = {
+      id,
+      name: segments[segments.length - 1],
+      path: segments.join(' > '),
+      children: []
+    }
+
+    // The official file lists parents before children
+    const parent = this.getByPath(segments.slice(0, -1).join(' > '))
+    if (parent) {
+      parent.children.push(entry)
+    } else {
+      this.roots.push(entry)
+    }
+
+    this.byId.set(id, entry)
+    this.byPath.set(entry.path.toLowerCase(), entry)
+  }
+
+  getById(id: number): TaxonomyEntry | undefined {
+    return this.byId.get(id)
+  }
+
+  getByPath(path: string): TaxonomyEntry | undefined {
+    return this.byPath.get(breadcrumbs(path).join(' > ').toLowerCase())
+  }
+
+  // All leaf categories under `root` (the whole taxonomy when omitted)
+  leaves(root?: string): TaxonomyEntry[] {
+    const start = root ? this.getByPath(root) : undefined
+    if (root && !start) return []
+
+    const leaves: TaxonomyEntry[] = []
+    const walk = (entries: TaxonomyEntry[]) => entries.forEach(entry => {
+      if (entry.children.length === 0) leaves.push(entry)
+      walk(entry.children)
+    })
+    walk(start ? [start] : this.roots)
+    return leaves
+  }
+
+  tree(root?: string): CategoryNode[] {
+    const start = root ? this.getByPath(root) : undefined
+    const toNode = (entry: TaxonomyEntry): CategoryNode => ({
+      id: entry.id,
+      name: entry.name,
+      path: entry.path,
+      children: entry.children.map(toNode)
+    })
+    return (start ? [start] : root ? [] : this.roots).map(toNode)
+  }
+}
+
+export function describeCategory(path: string, index?: TaxonomyIndex | null): CategoryDetails {
+  return {
+    category: path,
+    categoryPath: path,
+    categoryId: index?.getByPath(path)?.id,
+    breadcrumbs: breadcrumbs(path)
+  }
+}
+
+export type CategoryMatchReason = 'exact_match' | 'substring_match' | 'model_choice' | 'similarity_fallback' | 'default'
+
+export interface CategoryCandidate {
+  category: string
+  categoryId?: number
+  confidence: number
+  reason: CategoryMatchReason
+}
+
+export interface RankOptions {
+  // Item description, classified offline to back up or challenge the model's answer
+  context?: string
+  // Other categories the model considered plausible
+  alternatives?: string[]
+  index?: TaxonomyIndex | null
+  limit?: number
+  // Categories that may not be picked, e.g. one the seller rejected
+  exclude?: string[]
+}
+
+// Maps a classifier score (keyword weight plus cosine similarity) onto a confidence below any path match
+function similarityConfidence(score: number, ceiling: number): number {
+  return Math.round(ceiling * Math.min(1, score / 2) * 100) / 100
+}
+
+// Top-k categories for a model answer, each with a confidence and the reason it was picked
+export function rankCategories(
+  candidate: string,
+  categories: string[] = CATEGORIES,
+  options: RankOptions = {}
+): CategoryCandidate[] {
+  const { context, alternatives = [], index, limit = 3, exclude = [] } = options
+  const excluded = new Set(exclude)
+  const ranked = new Map<string, CategoryCandidate>()
+  const add = (category: string, confidence: number, reason: CategoryMatchReason) => {
+    if (excluded.has(category)) return
+    const existing = ranked.get(category)
+    if (!existing || existing.confidence < confidence) {
+      ranked.set(category, { category, categoryId: index?.getByPath(category)?.id, confidence, reason })
+    }
+  }
+
+  // Paths contained in an answer, most specific (longest) first
+  const pathMatches = (answer: string) => {
+    const lower = answer.trim().toLowerCase()
+    return lower ? categories.filter(c => lower.includes(c.toLowerCase())).sort((a, b) => b.length - a.length) : []
+  }
+
+  const classifier = getClassifier(categories)
+  const matches = pathMatches(candidate)
+
+  // An answer naming an excluded category is classified like a free-text one
+  if (matches.length > 0 && !excluded.has(matches[0])) {
+    const exact = matches[0].toLowerCase() === candidate.trim().toLowerCase()
+    add(matches[0], exact ? 0.95 : 0.85, exact ? 'exact_match' : 'substring_match')
+    // Ancestors of the chosen path are valid but less useful answers
+    matches.slice(1).forEach(match => add(match, 0.3, 'substring_match'))
+  } else {
+    classifier.classify(candidate).slice(0, limit + excluded.size)
+      .forEach(({ category, score }) => add(category, similarityConfidence(score, 0.75), 'similarity_fallback'))
+  }
+
+  alternatives.forEach((alternative, i) => {
+    const [match] = pathMatches(alternative)
+    if (match) add(match, Math.max(0.2, 0.5 - i * 0.1), 'model_choice')
+  })
+
+  if (context) {
+    classifier.classify(`${candidate} ${context}`).slice(0, limit + excluded.size)
+      .forEach(({ category, score }) => add(category, similarityConfidence(score, 0.7), 'similarity_fallback'))
+  }
+
+  if (ranked.size === 0) {
+    // Excluding every category leaves the first one, like regenerationCategories
+    const category = categories.find(other => !excluded.has(other)) ?? categories[0]
+    ranked.set(category, { category, categoryId: index?.getByPath(category)?.id, confidence: 0.1, reason: 'default' })
+  }
+
+  return [...ranked.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+}
+
+// Category selection logic
+export function chooseCategory(candidate: string, categories: string[] = CATEGORIES, context?: string): string {
+  return rankCategories(candidate, categories, { context, limit: 1 })[0].category
+}
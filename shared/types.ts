@@ -0,0 +1,135 @@
+import type { ProductAttributes } from './attributes'
+import type { ConditionGrading, DefectId } from './grading'
+import type { Locale } from './locales'
+import type { RegenerableField, RegenerationRequest } from './regeneration'
+import type { ListingCheck, ListingProfileId } from './marketplaces'
+import type { CategoryCandidate } from './taxonomy'
+
+export type { ConditionGrading, DefectId, ProductAttributes, RegenerableField, RegenerationRequest }
+
+export type FormInput = {
+  name: string
+  // Grade ID, label or alias from the grading scheme (see shared/grading.ts), e.g. "B" or "Good"
+  condition: string
+  // Ticked items of the defect checklist
+  defects?: DefectId[]
+  notes?: string
+  // Marketplace the listing is written for, 'generic' when omitted
+  profile?: ListingProfileId
+  // Output language, 'en-US' when omitted
+  locale?: Locale
+}
+
+export type SuggestionResult = {
+  // Listing title, present for marketplace profiles that have one
+  title?: string
+  marketingText: string
+  category: string
+  // Google Product Taxonomy ID, present when the full taxonomy is loaded
+  categoryId?: number
+  categoryPath?: string
+  breadcrumbs?: string[]
+  // Ranked alternatives, the chosen category first
+  categoryCandidates?: CategoryCandidate[]
+  // Estimated resale price, present when comparable sales exist for the category
+  priceRange?: PriceRange
+  // Details parsed from the name and notes, validated against productAttributesSchema
+  attributes?: ProductAttributes
+  // Result of checking the text against the listing profile's rules
+  listingCheck?: ListingCheck
+  // The condition grade and its marketplace condition value
+  grading?: ConditionGrading
+  // Language the text was written in
+  locale?: Locale
+  // Category breadcrumbs in that language, present for locales other than 'en-US'
+  localizedBreadcrumbs?: string[]
+  warnings?: SuggestionWarning[]
+  // What a vision model saw in the uploaded photos
+  imageFindings?: ImageFindings
+  // ID under /api/listings, present when the server saved the suggestion
+  listingId?: string
+  // Version of the suggestion prompt (shared/prompts/) the result was generated with
+  promptVersion?: string
+}
+
+export type ImageFindings = {
+  // Whether the photos show the named product; null when the model cannot tell
+  productMatch: boolean | null
+  detectedProduct?: string
+  defects: string[]
+  // Grade from the grading scheme that fits the photos
+  suggestedCondition?: string
+}
+
+// Non-fatal problem with a suggestion, e.g. a requested language the provider cannot write
+export type SuggestionWarning = {
+  code: string
+  message: string
+}
+
+export type ComparableSale = {
+  title: string
+  category: string
+  // Grade ID or alias, resolved with findGrade
+  condition: string
+  price: number
+  soldAt: string
+}
+
+export type PriceRange = {
+  currency: string
+  low: number
+  median: number
+  high: number
+  // "similar_items" when comparables share terms with the item name, otherwise the whole category was used
+  basis: 'similar_items' | 'category'
+  // Sales the range is based on, with prices adjusted to the item's condition
+  comparables: Array<ComparableSale & { adjustedPrice: number }>
+}
+
+export type BatchItemResult =
+  | { index: number; ok: true; result: SuggestionResult }
+  | { index: number; ok: false; error: string; code: string; details?: unknown }
+
+export type BatchSuggestionResponse = {
+  results: BatchItemResult[]
+  summary: {
+    total: number
+    succeeded: number
+    failed: number
+  }
+}
+
+// A saved suggestion with the input it was generated from (see /api/listings)
+export type Listing = {
+  id: string
+  input: FormInput
+  result: SuggestionResult
+  provider: string
+  model: string
+  // Prompt version the result was generated with, absent for listings saved by clients
+  promptVersion?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ListingPage = {
+  listings: Listing[]
+  // Listings matching the query, across all pages
+  total: number
+  limit: number
+  offset: number
+}
+
+export type FeedbackRating = 'up' | 'down'
+
+// A user's verdict on a suggestion (see POST /api/feedback); at least one of rating, correctedCategory and comment is set
+export type SuggestionFeedback = {
+  input: FormInput
+  // The result as returned to the user
+  result: SuggestionResult
+  rating?: FeedbackRating
+  // Category the user says fits better than result.category
+  correctedCategory?: string
+  comment?: string
+}
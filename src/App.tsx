@@ -1,86 +1,312 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Theme, Container, Heading, Text, Box, Flex, Button, TextField } from '@radix-ui/themes'
 import '@radix-ui/themes/styles.css'
 import { Label } from '@radix-ui/react-label'
 import * as Select from '@radix-ui/react-select'
 import { ChevronDownIcon, ChevronUpIcon, CheckIcon, MagicWandIcon, ExclamationTriangleIcon, CheckCircledIcon } from '@radix-ui/react-icons'
-import { generateSuggestions } from './lib/suggester'
-import { ApiError } from './lib/api'
+import { regenerateSuggestion, streamSuggestions } from './lib/suggester'
+import { ApiError, apiClient } from './lib/api'
 import { z } from 'zod'
 import { FadeInContainer, SlideUpContainer } from './components/AnimatedContainer'
 import { LoadingSpinner } from './components/LoadingSpinner'
+import { TypewriterText } from './components/AdvancedAnimations'
+import { FeedbackControls } from './components/FeedbackControls'
+import { HistoryPanel } from './components/HistoryPanel'
+import { RegenerateControl } from './components/RegenerateControl'
+import { breadcrumbs } from './lib/categories'
+import type { CategoryCandidate } from './lib/categories'
+import type { ConditionGrading, DefectId, FormInput, ImageFindings, PriceRange, ProductAttributes, SuggestionFeedback, SuggestionResult, SuggestionWarning } from './lib/types'
+import { DEFECT_IDS, DEFECTS, findGrade, gradingScheme } from './lib/grading'
+import { LISTING_PROFILE_IDS, LISTING_PROFILES } from './lib/marketplaces'
+import type { ListingCheck } from './lib/marketplaces'
+import { DEFAULT_LOCALE, LANGUAGE_NAMES, SUPPORTED_LOCALES, translateBreadcrumbs } from './lib/locales'
+import type { Locale } from './lib/locales'
+import { addToHistory, clearHistory, loadHistory, mergeHistory, saveHistory, syncHistory, toggleStar } from './lib/history'
+import type { HistoryEntry } from './lib/history'
+import type { RegenerableField } from './lib/regeneration'
 
 const formSchema = z.object({
   name: z.string().min(2, 'Product name must be at least 2 characters'),
-  condition: z.enum(['Like New', 'Good', 'Fair']),
-  notes: z.string().optional().default('')
+  condition: z.string().refine(
+    condition => gradingScheme.grades.some(grade => grade.id === condition),
+    'Please select a condition grade'
+  ),
+  defects: z.array(z.enum(DEFECT_IDS)).default([]),
+  notes: z.string().optional().default(''),
+  profile: z.enum(LISTING_PROFILE_IDS).default('generic'),
+  locale: z.enum(SUPPORTED_LOCALES).default(DEFAULT_LOCALE)
 })
 
 type FormData = z.infer<typeof formSchema>
 
+const DEFAULT_CONDITION = gradingScheme.grades[0].id
+
+const EMPTY_FORM: FormData = {
+  name: '',
+  condition: DEFAULT_CONDITION,
+  defects: [],
+  notes: '',
+  profile: 'generic',
+  locale: DEFAULT_LOCALE
+}
+
+// History entries may come from another grading scheme or an older version of the form
+const toFormData = (input: FormInput): FormData => ({
+  name: input.name,
+  condition: findGrade(input.condition, gradingScheme)?.id ?? DEFAULT_CONDITION,
+  defects: input.defects ?? [],
+  notes: input.notes ?? '',
+  profile: input.profile ?? 'generic',
+  locale: input.locale ?? DEFAULT_LOCALE
+})
+
+// Matches the backend's default SUGGEST_MAX_IMAGES
+const MAX_PHOTOS = 4
+
+// Below this the category is flagged for the seller to double-check
+const LOW_CONFIDENCE = 0.5
+
+const ATTRIBUTE_LABELS: Record<keyof ProductAttributes, string> = {
+  brand: 'Brand',
+  model: 'Model',
+  capacity: 'Capacity',
+  color: 'Color',
+  batteryHealth: 'Battery health',
+  carrierLock: 'Carrier',
+  accessories: 'Includes'
+}
+
+const formatAttribute = (key: keyof ProductAttributes, value: ProductAttributes[keyof ProductAttributes]) => {
+  if (Array.isArray(value)) return value.join(', ')
+  if (key === 'batteryHealth') return `${value}%`
+  if (key === 'carrierLock') return value === 'unlocked' ? 'Unlocked' : 'Locked'
+  return String(value)
+}
+
+const formatPrice = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount)
+
 // Detect test environment
 const isTestEnv = process.env.NODE_ENV === 'test' || import.meta.env.MODE === 'test'
 
 function App() {
-  const [formData, setFormData] = useState<FormData>({
-    name: '',
-    condition: 'Like New',
-    notes: ''
-  })
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Server request ID of the failed request, shown so users can quote it in support requests
+  const [errorReference, setErrorReference] = useState<string | undefined>(undefined)
   const [success, setSuccess] = useState(false)
   const [marketingText, setMarketingText] = useState('')
+  const [title, setTitle] = useState<string | undefined>(undefined)
+  const [listingCheck, setListingCheck] = useState<ListingCheck | undefined>(undefined)
+  // Language of the category labels, kept so alternatives can be relabeled
+  const [labelLocale, setLabelLocale] = useState<Locale>(DEFAULT_LOCALE)
+  const [localizedBreadcrumbs, setLocalizedBreadcrumbs] = useState<string[] | undefined>(undefined)
+  const [warnings, setWarnings] = useState<SuggestionWarning[]>([])
+  const [photos, setPhotos] = useState<File[]>([])
+  const photoInput = useRef<HTMLInputElement>(null)
+  const [imageFindings, setImageFindings] = useState<ImageFindings | undefined>(undefined)
   const [category, setCategory] = useState('')
+  const [categoryId, setCategoryId] = useState<number | undefined>(undefined)
+  const [candidates, setCandidates] = useState<CategoryCandidate[]>([])
+  const [priceRange, setPriceRange] = useState<PriceRange | undefined>(undefined)
+  const [attributes, setAttributes] = useState<ProductAttributes>({})
+  const [grading, setGrading] = useState<ConditionGrading | undefined>(undefined)
   const [hasResults, setHasResults] = useState(false)
+  const [streaming, setStreaming] = useState(false)
+  const [generation, setGeneration] = useState(0)
+  const [history, setHistory] = useState(loadHistory)
+  // Input behind the displayed result, which regeneration reuses even if the form was edited since
+  const [resultInput, setResultInput] = useState<FormData | undefined>(undefined)
+  // The result as returned, before the user picks an alternative category
+  const [result, setResult] = useState<SuggestionResult | undefined>(undefined)
+  const [regenerating, setRegenerating] = useState<RegenerableField | null>(null)
+
+  useEffect(() => {
+    saveHistory(history)
+  }, [history])
+
+  // With a backend configured, history is synced with its saved listings once per visit
+  useEffect(() => {
+    if (!import.meta.env.VITE_BACKEND_URL) return
+    syncHistory(loadHistory())
+      .then(entries => setHistory(current => mergeHistory(current, entries)))
+      .catch(error => console.warn('History sync failed:', error))
+  }, [])
 
-  const handleInputChange = (field: keyof FormData, value: string) => {
+  const handleInputChange = (field: Exclude<keyof FormData, 'defects'>, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     setError(null)
+    setErrorReference(undefined)
+    setSuccess(false)
+  }
+
+  const toggleDefect = (defect: DefectId, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      defects: checked ? [...prev.defects, defect] : prev.defects.filter(d => d !== defect)
+    }))
     setSuccess(false)
   }
 
-  const onSuggest = async () => {
+  const clearResults = () => {
+    setMarketingText('')
+    setTitle(undefined)
+    setListingCheck(undefined)
+    setLabelLocale(DEFAULT_LOCALE)
+    setLocalizedBreadcrumbs(undefined)
+    setWarnings([])
+    setImageFindings(undefined)
+    setCategory('')
+    setCategoryId(undefined)
+    setCandidates([])
+    setPriceRange(undefined)
+    setAttributes({})
+    setGrading(undefined)
+    setResultInput(undefined)
+    setResult(undefined)
+  }
+
+  const showResult = (res: SuggestionResult, input: FormData) => {
+    setResultInput(input)
+    setResult(res)
+    setMarketingText(res.marketingText)
+    setTitle(res.title)
+    setListingCheck(res.listingCheck)
+    setLabelLocale(input.locale)
+    setLocalizedBreadcrumbs(res.localizedBreadcrumbs)
+    setWarnings(res.warnings ?? [])
+    setImageFindings(res.imageFindings)
+    setCategory(res.category)
+    setCategoryId(res.categoryId)
+    setCandidates(res.categoryCandidates ?? [])
+    setPriceRange(res.priceRange)
+    setAttributes(res.attributes ?? {})
+    setGrading(res.grading)
+    setHasResults(true)
+  }
+
+  const onSuggest = async (input: FormData = formData, images: File[] = photos) => {
     setError(null)
+    setErrorReference(undefined)
     setSuccess(false)
     
-    const parse = formSchema.safeParse(formData)
+    const parse = formSchema.safeParse(input)
     if (!parse.success) {
       setError(parse.error.issues[0]?.message || 'Please fill in all required fields.')
       return
     }
     
     setLoading(true)
+    setStreaming(true)
+    clearResults()
+    setGeneration(prev => prev + 1)
     try {
-      const res = await generateSuggestions(formData)
-      setMarketingText(res.marketingText)
-      setCategory(res.category)
-      setHasResults(true)
+      const res = await streamSuggestions(input, (text) => {
+        setHasResults(true)
+        setMarketingText(prev => prev + text)
+      }, images)
+      showResult(res, input)
+      setHistory(prev => addToHistory(prev, input, res))
       setSuccess(true)
       
       // Auto-hide success message after 3 seconds
       setTimeout(() => setSuccess(false), 3000)
     } catch (e) {
-      if (e instanceof ApiError) {
-        setError(e.message)
-      } else {
-        setError(e instanceof Error ? e.message : 'Failed to generate suggestions')
-      }
+      showError(e)
       setHasResults(false)
     } finally {
       setLoading(false)
+      setStreaming(false)
+    }
+  }
+
+  const showError = (e: unknown) => {
+    if (e instanceof ApiError) {
+      setError(e.message)
+      setErrorReference(e.requestId)
+    } else {
+      setError(e instanceof Error ? e.message : 'Failed to generate suggestions')
+    }
+  }
+
+  // Replaces one field of the displayed result; the other field is sent along and kept
+  const regenerate = async (field: RegenerableField, instruction: string) => {
+    if (!resultInput) return
+
+    setError(null)
+    setErrorReference(undefined)
+    setSuccess(false)
+    setRegenerating(field)
+    try {
+      const res = await regenerateSuggestion(resultInput, {
+        field,
+        current: { title, marketingText, category },
+        instruction: instruction.trim() || undefined,
+        listingId: result?.listingId
+      })
+      showResult(res, resultInput)
+      if (field === 'marketingText') setGeneration(prev => prev + 1)
+      setHistory(prev => addToHistory(prev, resultInput, res))
+    } catch (e) {
+      showError(e)
+    } finally {
+      setRegenerating(null)
     }
   }
 
   const resetForm = () => {
-    setFormData({ name: '', condition: 'Like New', notes: '' })
+    setFormData(EMPTY_FORM)
     setError(null)
+    setErrorReference(undefined)
     setSuccess(false)
     setHasResults(false)
-    setMarketingText('')
-    setCategory('')
+    setPhotos([])
+    if (photoInput.current) photoInput.current.value = ''
+    clearResults()
+  }
+
+  // Photos are not kept in the history, so restored and re-run entries start without any
+  const restoreEntry = (entry: HistoryEntry) => {
+    resetForm()
+    setFormData(toFormData(entry.input))
+    setGeneration(prev => prev + 1)
+    showResult(entry.result, toFormData(entry.input))
+  }
+
+  const rerunEntry = (entry: HistoryEntry) => {
+    resetForm()
+    const input = toFormData(entry.input)
+    setFormData(input)
+    onSuggest(input, [])
+  }
+
+  const sendFeedback = async (feedback: Pick<SuggestionFeedback, 'rating' | 'correctedCategory' | 'comment'>) => {
+    if (!resultInput || !result) return
+    await apiClient.submitFeedback({
+      input: resultInput,
+      result,
+      ...feedback,
+      // Picking one of the alternative categories is a correction too
+      correctedCategory: feedback.correctedCategory ?? (category !== result.category ? category : undefined)
+    })
   }
 
+  const chooseCandidate = (candidate: CategoryCandidate) => {
+    setCategory(candidate.category)
+    setCategoryId(candidate.categoryId)
+    if (labelLocale !== DEFAULT_LOCALE) {
+      setLocalizedBreadcrumbs(translateBreadcrumbs(candidate.category, labelLocale))
+    }
+  }
+
+  const canRegenerate = Boolean(resultInput) && !loading && regenerating === null
+  const selectedGrade = gradingScheme.grades.find(grade => grade.id === formData.condition)
+  const selected = candidates.find(c => c.category === category)
+  const alternatives = candidates.filter(c => c.category !== category)
+  const attributeEntries = (Object.keys(ATTRIBUTE_LABELS) as Array<keyof ProductAttributes>)
+    .filter(key => attributes[key] !== undefined)
+
   return (
     <Theme>
       <Container size="2">
@@ -125,7 +351,7 @@ function App() {
                 </Label>
                 <Select.Root 
                   value={formData.condition} 
-                  onValueChange={(v) => handleInputChange('condition', v as FormData['condition'])}
+                  onValueChange={(v) => handleInputChange('condition', v)}
                 >
                   <Select.Trigger id="condition" aria-label="Condition" style={{ marginTop: 8 }}>
                     <Select.Value placeholder="Select condition" />
@@ -148,10 +374,10 @@ function App() {
                         <ChevronUpIcon />
                       </Select.ScrollUpButton>
                       <Select.Viewport>
-                        {['Like New', 'Good', 'Fair'].map((c) => (
+                        {gradingScheme.grades.map((grade) => (
                           <Select.Item 
-                            key={c} 
-                            value={c}
+                            key={grade.id} 
+                            value={grade.id}
                             style={{
                               padding: '8px 12px',
                               cursor: 'pointer',
@@ -161,7 +387,7 @@ function App() {
                               outline: 'none'
                             }}
                           >
-                            <Select.ItemText>{c}</Select.ItemText>
+                            <Select.ItemText>{grade.label}</Select.ItemText>
                             <Select.ItemIndicator>
                               <CheckIcon />
                             </Select.ItemIndicator>
@@ -174,8 +400,135 @@ function App() {
                     </Select.Content>
                   </Select.Portal>
                 </Select.Root>
+                {selectedGrade && (
+                  <Text as="p" size="1" color="gray" mt="1">
+                    {selectedGrade.definition}
+                  </Text>
+                )}
+              </Box>
+
+              <Box>
+                <Text as="div" size="2" weight="medium">
+                  Defects
+                </Text>
+                <Flex direction="column" gap="1" mt="2">
+                  {DEFECT_IDS.map((defect) => (
+                    <Text as="label" size="2" key={defect}>
+                      <Flex gap="2" align="center">
+                        <input
+                          type="checkbox"
+                          checked={formData.defects.includes(defect)}
+                          onChange={(e) => toggleDefect(defect, e.target.checked)}
+                        />
+                        {DEFECTS[defect]}
+                      </Flex>
+                    </Text>
+                  ))}
+                </Flex>
               </Box>
               
+              <Box>
+                <Label htmlFor="profile">
+                  Marketplace
+                </Label>
+                <Select.Root
+                  value={formData.profile}
+                  onValueChange={(v) => handleInputChange('profile', v as FormData['profile'])}
+                >
+                  <Select.Trigger id="profile" aria-label="Marketplace" style={{ marginTop: 8 }}>
+                    <Select.Value placeholder="Select marketplace" />
+                  </Select.Trigger>
+                  <Select.Portal>
+                    <Select.Content
+                      position="popper"
+                      sideOffset={5}
+                      style={{
+                        zIndex: 1000,
+                        minWidth: 'var(--radix-select-trigger-width)',
+                        backgroundColor: 'var(--gray-1)',
+                        border: '1px solid var(--gray-6)',
+                        borderRadius: '6px',
+                        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+                        overflow: 'hidden'
+                      }}
+                    >
+                      <Select.Viewport>
+                        {LISTING_PROFILE_IDS.map((id) => (
+                          <Select.Item
+                            key={id}
+                            value={id}
+                            style={{
+                              padding: '8px 12px',
+                              cursor: 'pointer',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'space-between',
+                              outline: 'none'
+                            }}
+                          >
+                            <Select.ItemText>{LISTING_PROFILES[id].label}</Select.ItemText>
+                            <Select.ItemIndicator>
+                              <CheckIcon />
+                            </Select.ItemIndicator>
+                          </Select.Item>
+                        ))}
+                      </Select.Viewport>
+                    </Select.Content>
+                  </Select.Portal>
+                </Select.Root>
+              </Box>
+
+              <Box>
+                <Label htmlFor="locale">
+                  Output Language
+                </Label>
+                <Select.Root
+                  value={formData.locale}
+                  onValueChange={(v) => handleInputChange('locale', v as FormData['locale'])}
+                >
+                  <Select.Trigger id="locale" aria-label="Output language" style={{ marginTop: 8 }}>
+                    <Select.Value placeholder="Select language" />
+                  </Select.Trigger>
+                  <Select.Portal>
+                    <Select.Content
+                      position="popper"
+                      sideOffset={5}
+                      style={{
+                        zIndex: 1000,
+                        minWidth: 'var(--radix-select-trigger-width)',
+                        backgroundColor: 'var(--gray-1)',
+                        border: '1px solid var(--gray-6)',
+                        borderRadius: '6px',
+                        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+                        overflow: 'hidden'
+                      }}
+                    >
+                      <Select.Viewport>
+                        {SUPPORTED_LOCALES.map((locale) => (
+                          <Select.Item
+                            key={locale}
+                            value={locale}
+                            style={{
+                              padding: '8px 12px',
+                              cursor: 'pointer',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'space-between',
+                              outline: 'none'
+                            }}
+                          >
+                            <Select.ItemText>{LANGUAGE_NAMES[locale]}</Select.ItemText>
+                            <Select.ItemIndicator>
+                              <CheckIcon />
+                            </Select.ItemIndicator>
+                          </Select.Item>
+                        ))}
+                      </Select.Viewport>
+                    </Select.Content>
+                  </Select.Portal>
+                </Select.Root>
+              </Box>
+
               <Box>
                 <Label htmlFor="notes">
                   Notes (Optional)
@@ -190,6 +543,26 @@ function App() {
                 />
               </Box>
 
+              <Box>
+                <Label htmlFor="photos">
+                  Photos (Optional, up to {MAX_PHOTOS})
+                </Label>
+                <input
+                  ref={photoInput}
+                  id="photos"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS))}
+                  style={{ display: 'block', marginTop: 8 }}
+                />
+                {photos.length > 0 && (
+                  <Text as="p" size="1" color="gray" mt="1">
+                    {photos.length} photo{photos.length === 1 ? '' : 's'} will be checked for visible defects
+                  </Text>
+                )}
+              </Box>
+
               <Flex gap="3" align="center" wrap="wrap">
                 <Button 
                   type="submit" 
@@ -243,6 +616,11 @@ function App() {
                       <ExclamationTriangleIcon />
                       <Text>{error}</Text>
                     </Flex>
+                    {errorReference && (
+                      <Text as="p" size="1" mt="1">
+                        Reference: <code>{errorReference}</code>
+                      </Text>
+                    )}
                   </Box>
                 </FadeInContainer>
               )}
@@ -272,6 +650,11 @@ function App() {
         <FadeInContainer isVisible={hasResults} delay={100} testMode={isTestEnv}>
           <Box py="6">
             <Heading as="h2" size="6" mb="4">Results</Heading>
+            {warnings.map(warning => (
+              <Text as="p" key={warning.code} size="2" color="amber" mb="3">
+                <ExclamationTriangleIcon /> {warning.message}
+              </Text>
+            ))}
             
             <Flex direction="column" gap="4">
               <Box>
@@ -286,10 +669,150 @@ function App() {
                     transition: 'all 0.2s ease'
                   }}
                 >
-                  <Text size="3">{category}</Text>
+                  <Text size="3" color={category ? undefined : 'gray'}>
+                    {localizedBreadcrumbs?.join(' > ') || category || (streaming ? 'Choosing category...' : '')}
+                  </Text>
+                  {localizedBreadcrumbs && category && (
+                    <Text as="p" size="1" color="gray" mt="1">
+                      {category}
+                    </Text>
+                  )}
+                  {categoryId !== undefined && (
+                    <Text as="p" size="1" color="gray" mt="1">
+                      Google Product Taxonomy ID: {categoryId}
+                    </Text>
+                  )}
+                  {selected && (
+                    <Text as="p" size="1" color={selected.confidence < LOW_CONFIDENCE ? 'amber' : 'gray'} mt="1">
+                      Confidence: {Math.round(selected.confidence * 100)}%
+                      {selected.confidence < LOW_CONFIDENCE && ' (low, please double-check the category)'}
+                    </Text>
+                  )}
+                  {alternatives.length > 0 && (
+                    <Flex gap="2" mt="2" wrap="wrap" align="center">
+                      <Text size="1" color="gray">Alternatives:</Text>
+                      {alternatives.map(alternative => (
+                        <Button
+                          key={alternative.category}
+                          type="button"
+                          size="1"
+                          variant="soft"
+                          onClick={() => chooseCandidate(alternative)}
+                        >
+                          {breadcrumbs(alternative.category).pop()} ({Math.round(alternative.confidence * 100)}%)
+                        </Button>
+                      ))}
+                    </Flex>
+                  )}
                 </Box>
+                {resultInput && (
+                  <RegenerateControl
+                    label="category"
+                    placeholder="e.g. more specific"
+                    busy={regenerating === 'category'}
+                    disabled={!canRegenerate}
+                    onRegenerate={instruction => regenerate('category', instruction)}
+                  />
+                )}
               </Box>
-              
+
+              {(attributeEntries.length > 0 || grading) && (
+                <Box>
+                  <Text weight="bold" size="3" color="gray">Item Details:</Text>
+                  <Box
+                    mt="2"
+                    p="3"
+                    style={{
+                      border: '1px solid var(--gray-6)',
+                      borderRadius: 8,
+                      background: 'var(--gray-2)'
+                    }}
+                  >
+                    {grading && (
+                      <Text as="p" size="2">
+                        <Text color="gray">Condition:</Text> {grading.label}
+                        {grading.marketplaceCondition && (
+                          <Text color="gray"> ({LISTING_PROFILES[listingCheck?.profile ?? resultInput?.profile ?? 'generic'].label} condition {grading.marketplaceCondition})</Text>
+                        )}
+                      </Text>
+                    )}
+                    {attributeEntries.map(key => (
+                      <Text as="p" size="2" key={key}>
+                        <Text color="gray">{ATTRIBUTE_LABELS[key]}:</Text> {formatAttribute(key, attributes[key])}
+                      </Text>
+                    ))}
+                  </Box>
+                </Box>
+              )}
+
+              {imageFindings && (
+                <Box>
+                  <Text weight="bold" size="3" color="gray">Photo Check:</Text>
+                  <Box
+                    mt="2"
+                    p="3"
+                    style={{
+                      border: '1px solid var(--gray-6)',
+                      borderRadius: 8,
+                      background: 'var(--gray-2)'
+                    }}
+                  >
+                    <Text as="p" size="2">
+                      {imageFindings.defects.length > 0
+                        ? `Visible defects: ${imageFindings.defects.join(', ')}`
+                        : 'No visible defects found'}
+                    </Text>
+                    {imageFindings.suggestedCondition && (
+                      <Text as="p" size="1" color="gray" mt="1">
+                        Condition from photos: {findGrade(imageFindings.suggestedCondition, gradingScheme)?.label ?? imageFindings.suggestedCondition}
+                      </Text>
+                    )}
+                  </Box>
+                </Box>
+              )}
+
+              {priceRange && (
+                <Box>
+                  <Text weight="bold" size="3" color="gray">Suggested Price:</Text>
+                  <Box
+                    mt="2"
+                    p="3"
+                    style={{
+                      border: '1px solid var(--gray-6)',
+                      borderRadius: 8,
+                      background: 'var(--gray-2)'
+                    }}
+                  >
+                    <Text size="3">
+                      {formatPrice(priceRange.low, priceRange.currency)} – {formatPrice(priceRange.high, priceRange.currency)}
+                      {' '}(median {formatPrice(priceRange.median, priceRange.currency)})
+                    </Text>
+                    <Text as="p" size="1" color="gray" mt="1">
+                      Based on {priceRange.comparables.length} comparable{priceRange.comparables.length === 1 ? '' : 's'}
+                      {priceRange.basis === 'category' ? ' from the same category' : ' for similar items'}:
+                      {' '}{priceRange.comparables.slice(0, 3).map(c => `${c.title} (${c.condition}, ${formatPrice(c.price, priceRange.currency)})`).join(', ')}
+                    </Text>
+                  </Box>
+                </Box>
+              )}
+
+              {title && (
+                <Box>
+                  <Text weight="bold" size="3" color="gray">Listing Title:</Text>
+                  <Box
+                    mt="2"
+                    p="3"
+                    style={{
+                      border: '1px solid var(--gray-6)',
+                      borderRadius: 8,
+                      background: 'var(--gray-2)'
+                    }}
+                  >
+                    <Text size="3">{title}</Text>
+                  </Box>
+                </Box>
+              )}
+
               <Box>
                 <Text weight="bold" size="3" color="gray">Marketing Text:</Text>
                 <Box 
@@ -302,13 +825,47 @@ function App() {
                     transition: 'all 0.2s ease'
                   }}
                 >
-                  <Text as="p" size="3" style={{ lineHeight: 1.6 }}>{marketingText}</Text>
+                  <Text as="div" size="3" style={{ lineHeight: 1.6, whiteSpace: 'pre-line' }}>
+                    <TypewriterText key={generation} text={marketingText} speed={10} showCursor={streaming} />
+                  </Text>
+                  {listingCheck && !listingCheck.passed && (
+                    <Flex direction="column" gap="1" mt="3">
+                      {listingCheck.violations.map(v => (
+                        <Text key={v.message} size="1" color="amber">
+                          <ExclamationTriangleIcon /> {v.message}
+                        </Text>
+                      ))}
+                    </Flex>
+                  )}
                 </Box>
+                {resultInput && (
+                  <RegenerateControl
+                    label="marketing text"
+                    placeholder="e.g. shorter, mention the warranty"
+                    busy={regenerating === 'marketingText'}
+                    disabled={!canRegenerate}
+                    onRegenerate={instruction => regenerate('marketingText', instruction)}
+                  />
+                )}
               </Box>
+
+              {/* Feedback is stored by the backend, so the controls need one */}
+              {result && !streaming && import.meta.env.VITE_BACKEND_URL && (
+                <FeedbackControls key={`${generation}:${category}`} category={category} onSubmit={sendFeedback} />
+              )}
             </Flex>
           </Box>
         </FadeInContainer>
       </Container>
+
+      <HistoryPanel
+        entries={history.entries}
+        busy={loading}
+        onRestore={restoreEntry}
+        onRerun={rerunEntry}
+        onToggleStar={id => setHistory(prev => toggleStar(prev, id))}
+        onClear={() => setHistory(prev => clearHistory(prev))}
+      />
       
       <style>
         {`
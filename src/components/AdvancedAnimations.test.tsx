@@ -0,0 +1,25 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { act, render } from '@testing-library/react'
+import { TypewriterText } from './AdvancedAnimations'
+import { applyListingProfile, getListingProfile } from '../../shared/marketplaces'
+
+describe('TypewriterText', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shows the final text when a streamed description is trimmed to the profile limit', () => {
+    vi.useFakeTimers()
+    const streamed = Array.from({ length: 15 }, (_, i) => `Sentence number ${i + 1} about this phone.`).join(' ')
+    const { marketingText } = applyListingProfile({ marketingText: streamed }, getListingProfile('generic'), 'Phone')
+    // 90 words, over the generic profile's 80
+    expect(marketingText.length).toBeLessThan(streamed.length)
+
+    const { container, rerender } = render(<TypewriterText text={streamed} speed={1} showCursor={false} />)
+    for (let i = 0; i < streamed.length; i++) act(() => { vi.advanceTimersByTime(1) })
+    expect(container.textContent).toBe(streamed)
+
+    rerender(<TypewriterText text={marketingText} speed={1} showCursor={false} />)
+    expect(container.textContent).toBe(marketingText)
+  })
+})
@@ -185,26 +185,26 @@ interface TypewriterTextProps {
   text: string
   speed?: number
   className?: string
+  showCursor?: boolean
 }
 
-export function TypewriterText({ text, speed = 50, className }: TypewriterTextProps) {
-  const [displayText, setDisplayText] = useState('')
+// Text may grow while it is being typed (e.g. streamed tokens); give the component a new key to restart it.
+// What is shown is always the start of the current text, so text replaced while typing (e.g. a streamed
+// description trimmed to the marketplace's limit) is shown as it is now rather than as it was typed.
+export function TypewriterText({ text, speed = 50, className, showCursor = true }: TypewriterTextProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
 
   useEffect(() => {
     if (currentIndex < text.length) {
-      const timer = setTimeout(() => {
-        setDisplayText(prev => prev + text[currentIndex])
-        setCurrentIndex(prev => prev + 1)
-      }, speed)
+      const timer = setTimeout(() => setCurrentIndex(prev => prev + 1), speed)
       return () => clearTimeout(timer)
     }
   }, [currentIndex, text, speed])
 
   return (
     <Box className={className}>
-      {displayText}
-      <Box
+      {text.slice(0, currentIndex)}
+      {showCursor && <Box
         style={{
           display: 'inline-block',
           width: 2,
@@ -222,7 +222,7 @@ export function TypewriterText({ text, speed = 50, className }: TypewriterTextPr
             }
           `}
         </style>
-      </Box>
+      </Box>}
     </Box>
   )
 }
@@ -0,0 +1,23 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import { FeedbackControls } from './FeedbackControls'
+
+describe('FeedbackControls', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('offers the categories the backend validates corrections against', async () => {
+    vi.stubEnv('VITE_BACKEND_URL', 'http://backend.test')
+    const bicycles = 'Sporting Goods > Outdoor Recreation > Cycling > Bicycles'
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ categories: [bicycles, 'Toys & Games > Puzzles'] }))))
+
+    render(<FeedbackControls category="Toys & Games > Puzzles" onSubmit={async () => {}} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Correct category' }))
+
+    const select = screen.getByLabelText('Correct category')
+    expect(await within(select).findByRole('option', { name: bicycles })).toBeTruthy()
+    expect(within(select).getAllByRole('option')).toHaveLength(2)
+  })
+})
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import { Box, Button, Flex, Text, TextArea } from '@radix-ui/themes'
+import { Label } from '@radix-ui/react-label'
+import { CATEGORIES, loadCategories } from '../lib/categories'
+import type { FeedbackRating, SuggestionFeedback } from '../lib/types'
+
+type FeedbackDetails = Pick<SuggestionFeedback, 'rating' | 'correctedCategory' | 'comment'>
+
+interface FeedbackControlsProps {
+  // Category currently shown, preselected when correcting it
+  category: string
+  onSubmit: (feedback: FeedbackDetails) => Promise<unknown>
+}
+
+// Thumbs up sends right away; thumbs down and "Correct category" open a form for a correction and comments
+export function FeedbackControls({ category, onSubmit }: FeedbackControlsProps) {
+  const [rating, setRating] = useState<FeedbackRating | undefined>(undefined)
+  const [open, setOpen] = useState(false)
+  const [correctedCategory, setCorrectedCategory] = useState(category)
+  const [comment, setComment] = useState('')
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle')
+  // The backend's categories, which it validates corrections against; the bundled subset until they load
+  const [options, setOptions] = useState(CATEGORIES)
+
+  useEffect(() => {
+    let cancelled = false
+    loadCategories().then(loaded => {
+      if (!cancelled) setOptions(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const categories = options.includes(category) ? options : [category, ...options]
+  const hasDetails = Boolean(rating || correctedCategory !== category || comment.trim())
+
+  const send = async (feedback: FeedbackDetails) => {
+    setStatus('sending')
+    try {
+      await onSubmit(feedback)
+      setStatus('sent')
+      setOpen(false)
+    } catch {
+      setStatus('failed')
+    }
+  }
+
+  if (status === 'sent') {
+    return <Text as="p" size="2" color="green">Thanks for your feedback!</Text>
+  }
+
+  return (
+    <Box>
+      <Flex gap="2" align="center" wrap="wrap">
+        <Text size="2" color="gray">Was this suggestion helpful?</Text>
+        <Button
+          type="button"
+          size="1"
+          variant="soft"
+          aria-label="Helpful"
+          disabled={status === 'sending'}
+          onClick={() => send({ rating: 'up' })}
+        >
+          👍
+        </Button>
+        <Button
+          type="button"
+          size="1"
+          variant={rating === 'down' ? 'solid' : 'soft'}
+          aria-label="Not helpful"
+          aria-pressed={rating === 'down'}
+          disabled={status === 'sending'}
+          onClick={() => {
+            setRating('down')
+            setOpen(true)
+          }}
+        >
+          👎
+        </Button>
+        <Button type="button" size="1" variant="ghost" onClick={() => setOpen(true)}>
+          Correct category
+        </Button>
+      </Flex>
+
+      {open && (
+        <Flex direction="column" gap="2" mt="3" asChild>
+          <form
+            aria-label="Suggestion feedback"
+            onSubmit={(e) => {
+              e.preventDefault()
+              send({
+                rating,
+                correctedCategory: correctedCategory !== category ? correctedCategory : undefined,
+                comment: comment.trim() || undefined
+              })
+            }}
+          >
+            <Label htmlFor="corrected-category">Correct category</Label>
+            <select
+              id="corrected-category"
+              value={correctedCategory}
+              onChange={(e) => setCorrectedCategory(e.target.value)}
+            >
+              {categories.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <Label htmlFor="feedback-comment">Comments (Optional)</Label>
+            <TextArea
+              id="feedback-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What should be different?"
+              maxLength={1000}
+            />
+            <Flex gap="2">
+              <Button type="submit" size="1" disabled={!hasDetails || status === 'sending'}>
+                Send feedback
+              </Button>
+              <Button type="button" size="1" variant="ghost" color="gray" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+            </Flex>
+          </form>
+        </Flex>
+      )}
+
+      {status === 'failed' && (
+        <Text as="p" size="1" color="red" mt="1">
+          Feedback could not be sent. Please try again.
+        </Text>
+      )}
+    </Box>
+  )
+}
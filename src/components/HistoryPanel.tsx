@@ -0,0 +1,110 @@
+import { Box, Button, Flex, Heading, IconButton, Text } from '@radix-ui/themes'
+import { CounterClockwiseClockIcon, ReloadIcon, StarFilledIcon, StarIcon } from '@radix-ui/react-icons'
+import { breadcrumbs } from '../lib/categories'
+import { findGrade, gradingScheme } from '../lib/grading'
+import type { HistoryEntry } from '../lib/history'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  // Restoring and re-running are disabled while a suggestion is being generated
+  busy?: boolean
+  onRestore: (entry: HistoryEntry) => void
+  onRerun: (entry: HistoryEntry) => void
+  onToggleStar: (id: string) => void
+  onClear: () => void
+}
+
+const PREVIEW_LENGTH = 90
+
+const preview = (text: string) =>
+  text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH).trimEnd()}…` : text
+
+export function HistoryPanel({ entries, busy = false, onRestore, onRerun, onToggleStar, onClear }: HistoryPanelProps) {
+  return (
+    <Box asChild py="5" px="4" className="history-panel">
+      <aside aria-label="Suggestion history">
+        <Flex justify="between" align="center" mb="3">
+          <Heading as="h2" size="4">History</Heading>
+          {entries.some(entry => !entry.starred) && (
+            <Button type="button" size="1" variant="ghost" color="gray" onClick={onClear}>
+              Clear history
+            </Button>
+          )}
+        </Flex>
+
+        {entries.length === 0 ? (
+          <Text as="p" size="2" color="gray">
+            Generated suggestions appear here so you can restore or re-run them.
+          </Text>
+        ) : (
+          <Flex direction="column" gap="2" asChild>
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {entries.map(entry => (
+                <li key={entry.id}>
+                  <Box
+                    p="3"
+                    style={{
+                      border: '1px solid var(--gray-6)',
+                      borderRadius: 8,
+                      background: entry.starred ? 'var(--amber-2)' : 'var(--gray-2)'
+                    }}
+                  >
+                    <Flex justify="between" gap="2">
+                      <Text size="2" weight="bold">{entry.result.title ?? entry.input.name}</Text>
+                      <IconButton
+                        type="button"
+                        size="1"
+                        variant="ghost"
+                        color={entry.starred ? 'amber' : 'gray'}
+                        aria-label={entry.starred ? 'Unstar' : 'Star'}
+                        aria-pressed={Boolean(entry.starred)}
+                        onClick={() => onToggleStar(entry.id)}
+                      >
+                        {entry.starred ? <StarFilledIcon /> : <StarIcon />}
+                      </IconButton>
+                    </Flex>
+                    <Text as="p" size="1" color="gray">
+                      {findGrade(entry.input.condition, gradingScheme)?.label ?? entry.input.condition}
+                      {' · '}{breadcrumbs(entry.result.category).pop()}
+                      {' · '}{new Date(entry.createdAt).toLocaleString()}
+                    </Text>
+                    <Text as="p" size="1" mt="1">{preview(entry.result.marketingText)}</Text>
+                    <Flex gap="2" mt="2">
+                      <Button type="button" size="1" variant="soft" disabled={busy} onClick={() => onRestore(entry)}>
+                        <CounterClockwiseClockIcon /> Restore
+                      </Button>
+                      <Button type="button" size="1" variant="soft" disabled={busy} onClick={() => onRerun(entry)}>
+                        <ReloadIcon /> Re-run
+                      </Button>
+                    </Flex>
+                  </Box>
+                </li>
+              ))}
+            </ul>
+          </Flex>
+        )}
+        <style>
+          {`
+            .history-panel {
+              max-width: 688px;
+              margin: 0 auto;
+            }
+
+            /* Beside the centered form once there is room for it */
+            @media (min-width: 1400px) {
+              .history-panel {
+                position: fixed;
+                top: 0;
+                right: 0;
+                width: 320px;
+                height: 100vh;
+                overflow-y: auto;
+                border-left: 1px solid var(--gray-6);
+              }
+            }
+          `}
+        </style>
+      </aside>
+    </Box>
+  )
+}
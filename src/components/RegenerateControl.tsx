@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { Button, Flex, TextField } from '@radix-ui/themes'
+import { ReloadIcon } from '@radix-ui/react-icons'
+import { LoadingSpinner } from './LoadingSpinner'
+import { MAX_INSTRUCTION_LENGTH } from '../lib/regeneration'
+
+interface RegenerateControlProps {
+  // What is regenerated, used in the accessible labels, e.g. "marketing text"
+  label: string
+  placeholder?: string
+  busy?: boolean
+  disabled?: boolean
+  onRegenerate: (instruction: string) => void
+}
+
+// Instruction field and button to regenerate a single result field
+export function RegenerateControl({ label, placeholder, busy = false, disabled = false, onRegenerate }: RegenerateControlProps) {
+  const [instruction, setInstruction] = useState('')
+
+  return (
+    <Flex gap="2" mt="2" align="center" asChild>
+      <form
+        aria-label={`Regenerate ${label}`}
+        onSubmit={(e) => {
+          e.preventDefault()
+          onRegenerate(instruction)
+        }}
+      >
+        <TextField.Root
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={placeholder ?? 'Optional instruction'}
+          aria-label={`Instruction for the new ${label}`}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          size="1"
+          style={{ flexGrow: 1 }}
+        />
+        <Button type="submit" size="1" variant="soft" disabled={busy || disabled}>
+          {busy ? <LoadingSpinner size="small" /> : <ReloadIcon />}
+          Regenerate
+        </Button>
+      </form>
+    </Flex>
+  )
+}
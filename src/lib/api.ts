@@ -1,4 +1,5 @@
-import type { FormInput, SuggestionResult } from './types'
+import type { BatchSuggestionResponse, FormInput, Listing, ListingPage, RegenerationRequest, SuggestionFeedback, SuggestionResult } from './types'
+import type { CategoryNode } from './categories'
 
 export interface ApiConfig {
   baseUrl: string
@@ -16,6 +17,18 @@ export class ApiError extends Error {
     this.code = code
     this.details = details
   }
+
+  // Server request ID to quote when reporting the failure, if the error came from the backend
+  get requestId(): string | undefined {
+    const details = this.details as { requestId?: unknown } | undefined
+    return typeof details?.requestId === 'string' ? details.requestId : undefined
+  }
+
+  // HTTP status of the backend response, if the error came from one
+  get status(): number | undefined {
+    const details = this.details as { status?: unknown } | undefined
+    return typeof details?.status === 'number' ? details.status : undefined
+  }
 }
 
 class ApiClient {
@@ -28,15 +41,9 @@ class ApiClient {
     }
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.config.baseUrl}${endpoint}`
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-    const headers: Record<string, string> = {
+  // Multipart bodies must let the browser set Content-Type with the boundary
+  private buildHeaders(extra?: HeadersInit, multipart = false): Record<string, string> {
+    const headers: Record<string, string> = multipart ? {} : {
       'Content-Type': 'application/json'
     }
     
@@ -44,62 +51,207 @@ class ApiClient {
       headers['Authorization'] = `Bearer ${this.config.apiKey}`
     }
     
-    if (options.headers) {
-      Object.assign(headers, options.headers)
+    if (extra) {
+      Object.assign(headers, extra)
+    }
+
+    return headers
+  }
+
+  // The server's request ID ends up in `details.requestId`, from the body or the X-Request-Id header
+  private async toResponseError(response: Response): Promise<ApiError> {
+    const errorData = await response.json().catch(() => ({}))
+    const requestId = errorData.requestId ?? response.headers.get('X-Request-Id') ?? undefined
+    return new ApiError(
+      errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+      errorData.code || `HTTP_${response.status}`,
+      { ...errorData, status: response.status, ...(requestId && { requestId }) }
+    )
+  }
+
+  private toNetworkError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    
+    if (errorMessage.includes('AbortError')) {
+      return new ApiError('Request timeout', 'TIMEOUT')
     }
+    
+    return new ApiError(
+      errorMessage || 'Network error',
+      'NETWORK_ERROR',
+      error
+    )
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const url = `${this.config.baseUrl}${endpoint}`
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
 
     try {
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
-        headers
+        headers: this.buildHeaders(options.headers, options.body instanceof FormData)
       })
 
       clearTimeout(timeoutId)
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new ApiError(
-          errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-          errorData.code || `HTTP_${response.status}`,
-          errorData
-        )
+        throw await this.toResponseError(response)
       }
 
       return await response.json()
     } catch (error) {
       clearTimeout(timeoutId)
-      
-      if (error instanceof ApiError) {
-        throw error
-      }
-      
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      
-      if (errorMessage.includes('AbortError')) {
-        throw new ApiError('Request timeout', 'TIMEOUT')
-      }
-      
-      throw new ApiError(
-        errorMessage || 'Network error',
-        'NETWORK_ERROR',
-        error
-      )
+      throw this.toNetworkError(error)
     }
   }
 
-  async generateSuggestions(input: FormInput): Promise<SuggestionResult> {
+  async generateSuggestions(input: FormInput, images: File[] = []): Promise<SuggestionResult> {
     return this.request<SuggestionResult>('/api/suggest', {
       method: 'POST',
-      body: JSON.stringify(input),
+      body: encodeSuggestionBody(input, images),
+    })
+  }
+
+  async generateBatchSuggestions(inputs: FormInput[]): Promise<BatchSuggestionResponse> {
+    return this.request<BatchSuggestionResponse>('/api/suggest/batch', {
+      method: 'POST',
+      body: JSON.stringify(inputs),
     })
   }
 
+  async regenerateSuggestion(input: FormInput, request: RegenerationRequest): Promise<SuggestionResult> {
+    return this.request<SuggestionResult>('/api/suggest/regenerate', {
+      method: 'POST',
+      body: JSON.stringify({ input, ...request }),
+    })
+  }
+
+  async submitFeedback(feedback: SuggestionFeedback): Promise<{ id: string; createdAt: string }> {
+    return this.request<{ id: string; createdAt: string }>('/api/feedback', {
+      method: 'POST',
+      body: JSON.stringify(feedback),
+    })
+  }
+
+  async listListings(query: { q?: string; limit?: number; offset?: number } = {}): Promise<ListingPage> {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value))
+    }
+    return this.request<ListingPage>(`/api/listings?${params}`)
+  }
+
+  async saveListing(listing: Pick<Listing, 'input' | 'result' | 'provider' | 'model'>): Promise<Listing> {
+    return this.request<Listing>('/api/listings', {
+      method: 'POST',
+      body: JSON.stringify(listing),
+    })
+  }
+
+  // Consumes the Server-Sent Events stream of /api/suggest/stream, forwarding marketing text
+  // tokens to `onToken` and resolving with the final normalized result
+  async streamSuggestions(
+    input: FormInput,
+    onToken: (text: string) => void,
+    images: File[] = []
+  ): Promise<SuggestionResult> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/api/suggest/stream`, {
+        method: 'POST',
+        body: encodeSuggestionBody(input, images),
+        signal: controller.signal,
+        headers: this.buildHeaders({ Accept: 'text/event-stream' }, images.length > 0)
+      })
+
+      if (!response.ok || !response.body) {
+        throw await this.toResponseError(response)
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      for (;;) {
+        const { value, done } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary: number
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const { event, data } = parseSseEvent(buffer.slice(0, boundary))
+          buffer = buffer.slice(boundary + 2)
+
+          if (event === 'token') {
+            onToken(String(data.text ?? ''))
+          } else if (event === 'done') {
+            return data as SuggestionResult
+          } else if (event === 'error') {
+            throw new ApiError(
+              typeof data.error === 'string' ? data.error : 'Failed to generate suggestions',
+              typeof data.code === 'string' ? data.code : 'STREAM_ERROR',
+              data
+            )
+          }
+        }
+      }
+
+      throw new ApiError('Suggestion stream ended unexpectedly', 'STREAM_INTERRUPTED')
+    } catch (error) {
+      throw this.toNetworkError(error)
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  async getCategories(): Promise<{ source: string; root: string; count: number; categories: string[]; tree: CategoryNode[] }> {
+    return this.request('/api/categories')
+  }
+
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     return this.request('/api/health')
   }
 }
 
+// JSON unless photos are attached, in which case the fields and files are sent as multipart/form-data
+function encodeSuggestionBody(input: FormInput, images: File[]): string | FormData {
+  if (images.length === 0) return JSON.stringify(input)
+
+  const form = new FormData()
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined) form.append(key, String(value))
+  }
+  images.forEach(image => form.append('images', image))
+  return form
+}
+
+function parseSseEvent(block: string): { event: string; data: Record<string, unknown> } {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart())
+    }
+  }
+
+  return { event, data: dataLines.length ? JSON.parse(dataLines.join('\n')) : {} }
+}
+
 export function createApiClient(config?: Partial<ApiConfig>): ApiClient {
   const isProduction = import.meta.env.PROD
   const hasBackendUrl = import.meta.env.VITE_BACKEND_URL
@@ -1,23 +1,30 @@
-export const CATEGORIES: string[] = [
-  'Electronics',
-  'Electronics > Computers',
-  'Electronics > Computers > Laptops',
-  'Electronics > Computers > Desktop Computers',
-  'Electronics > Communications > Telephony > Mobile Phones',
-  'Electronics > Communications > Telephony > Mobile Phone Accessories',
-  'Electronics > Audio > Headphones',
-  'Electronics > Audio > Speakers',
-  'Electronics > Video > Monitors',
-  'Electronics > Video > Televisions',
-  'Electronics > GPS Navigation',
-  'Electronics > Wearable Technology > Smartwatches',
-  'Electronics > Cameras & Optics > Digital Cameras',
-  'Electronics > Printers, Scanners & Fax > Printers',
-  'Electronics > Storage > External Hard Drives',
-  'Electronics > Storage > USB Flash Drives',
-  'Electronics > Networking > Routers',
-  'Electronics > Power > Power Adapters',
-  'Electronics > Tablets',
-  'Electronics > Game Consoles'
-]
+import { apiClient } from './api'
+import { CATEGORIES } from '../../shared/taxonomy'
 
+export {
+  CATEGORIES,
+  breadcrumbs,
+  buildCategoryTree,
+  chooseCategory,
+  describeCategory,
+  rankCategories
+} from '../../shared/taxonomy'
+export type { CategoryCandidate, CategoryDetails, CategoryNode } from '../../shared/taxonomy'
+
+let backendCategories: Promise<string[]> | null = null
+
+// The categories the backend prompts and validates with (the full Google taxonomy when it loads one),
+// so client-side suggestions and feedback use the same list as the server. The bundled subset is used
+// without a backend or while it is unreachable; a failed request is tried again on the next call.
+export function loadCategories(): Promise<string[]> {
+  if (!import.meta.env.VITE_BACKEND_URL) return Promise.resolve(CATEGORIES)
+
+  backendCategories ??= apiClient.getCategories()
+    .then(({ categories }) => categories)
+    .catch(error => {
+      backendCategories = null
+      console.warn('Loading categories from the backend failed, using the bundled subset:', error)
+      return CATEGORIES
+    })
+  return backendCategories
+}
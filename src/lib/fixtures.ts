@@ -0,0 +1,15 @@
+import { ReplayProvider } from '../../shared/fixtures'
+import type { ModelFixture } from '../../shared/fixtures'
+
+// The model responses recorded by the server (LLM_FIXTURES=record). The browser cannot write files,
+// so the client only replays them; the prompts are the same on both sides.
+const fixtureFiles = import.meta.glob<ModelFixture>('../../server/fixtures/llm/*.json', { import: 'default' })
+
+let replay: Promise<ReplayProvider> | null = null
+
+// Loaded on first use, so builds that never replay do not fetch the fixtures
+export function replayProvider(): Promise<ReplayProvider> {
+  replay ??= Promise.all(Object.values(fixtureFiles).map(load => load()))
+    .then(fixtures => new ReplayProvider(fixtures))
+  return replay
+}
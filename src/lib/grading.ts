@@ -0,0 +1,7 @@
+import { getGradingScheme } from '../../shared/grading'
+
+export { DEFECT_IDS, DEFECTS, findGrade } from '../../shared/grading'
+export type { ConditionGrade, DefectId, GradingScheme } from '../../shared/grading'
+
+// VITE_GRADING_SCHEME should match the backend's GRADING_SCHEME ("refurb" by default, or "simple")
+export const gradingScheme = getGradingScheme(import.meta.env.VITE_GRADING_SCHEME)
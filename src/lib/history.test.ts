@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { addToHistory, clearHistory, loadHistory, MAX_HISTORY_ENTRIES, mergeHistory, saveHistory, toggleStar } from './history'
+import type { HistoryEntry, SuggestionHistory } from './history'
+
+const input = { name: 'iPhone 12', condition: 'B' }
+const result = { marketingText: 'Used iPhone 12', category: 'Electronics > Communications > Telephony > Mobile Phones' }
+
+describe('suggestion history', () => {
+  it('round-trips through storage and survives corrupt data', () => {
+    const history = addToHistory({ entries: [] }, input, result)
+    saveHistory(history, localStorage)
+    expect(loadHistory(localStorage)).toEqual(history)
+
+    localStorage.setItem('renow:suggestion-history', '{not json')
+    expect(loadHistory(localStorage)).toEqual({ entries: [] })
+  })
+
+  it('keeps starred entries when trimming and clearing', () => {
+    let history: SuggestionHistory = addToHistory({ entries: [] }, { ...input, name: 'Favourite' }, result)
+    history = toggleStar(history, history.entries[0].id)
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) history = addToHistory(history, input, result)
+
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES + 1)
+    expect(history.entries.at(-1)?.input.name).toBe('Favourite')
+
+    const cleared = clearHistory(history, new Date('2026-10-19T12:00:00Z'))
+    expect(cleared.entries.map(entry => entry.input.name)).toEqual(['Favourite'])
+    expect(cleared.clearedAt).toBe('2026-10-19T12:00:00.000Z')
+  })
+
+  it('replaces the entry of a listing that is added again', () => {
+    let history = addToHistory({ entries: [] }, input, { ...result, listingId: 'listing-1' }, new Date('2026-10-19T10:00:00Z'))
+    history = toggleStar(history, 'listing-1')
+    history = addToHistory(history, { ...input, name: 'Pixel 7' }, result, new Date('2026-10-19T11:00:00Z'))
+    history = addToHistory(history, input, { ...result, marketingText: 'Regenerated', listingId: 'listing-1' }, new Date('2026-10-19T12:00:00Z'))
+
+    expect(history.entries).toHaveLength(2)
+    expect(history.entries[0]).toMatchObject({ id: 'listing-1', starred: true, result: { marketingText: 'Regenerated' } })
+    expect(history.entries[1].input.name).toBe('Pixel 7')
+  })
+
+  it('merges synced entries by ID or listing, keeping local IDs and stars', () => {
+    let history = addToHistory({ entries: [] }, input, result, new Date('2026-10-19T10:00:00Z'))
+    const local = history.entries[0]
+    history = toggleStar(history, local.id)
+
+    const synced: HistoryEntry[] = [
+      { id: 'listing-1', input, result: { ...result, listingId: 'listing-1' }, createdAt: '2026-10-19T10:00:00.000Z' },
+      { id: 'listing-2', input: { ...input, name: 'Pixel 7' }, result: { ...result, listingId: 'listing-2' }, createdAt: '2026-10-19T11:00:00.000Z' }
+    ]
+    const pushed = mergeHistory(history, [{ ...local, result: { ...result, listingId: 'listing-1' } }])
+    const merged = mergeHistory(pushed, synced)
+
+    expect(merged.entries.map(entry => [entry.id, entry.result.listingId, entry.starred])).toEqual([
+      ['listing-2', 'listing-2', undefined],
+      [local.id, 'listing-1', true]
+    ])
+  })
+})
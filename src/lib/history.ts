@@ -0,0 +1,128 @@
+import { apiClient } from './api'
+import type { FormInput, Listing, SuggestionResult } from './types'
+
+export type HistoryEntry = {
+  id: string
+  input: FormInput
+  result: SuggestionResult
+  createdAt: string
+  starred?: boolean
+}
+
+export type SuggestionHistory = {
+  // Newest first
+  entries: HistoryEntry[]
+  // Backend listings created before this are not pulled back in after the history was cleared
+  clearedAt?: string
+}
+
+const STORAGE_KEY = 'renow:suggestion-history'
+
+// Unstarred entries kept; starred ones are never dropped
+export const MAX_HISTORY_ENTRIES = 50
+
+// Unreadable or unavailable storage (private mode, quota, corrupt JSON) starts an empty history
+export function loadHistory(storage: Storage | undefined = globalThis.localStorage): SuggestionHistory {
+  try {
+    const stored = JSON.parse(storage?.getItem(STORAGE_KEY) ?? 'null')
+    return Array.isArray(stored?.entries) ? stored : { entries: [] }
+  } catch {
+    return { entries: [] }
+  }
+}
+
+export function saveHistory(history: SuggestionHistory, storage: Storage | undefined = globalThis.localStorage): void {
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.warn('Failed to save suggestion history:', error)
+  }
+}
+
+function trimmed(entries: HistoryEntry[]): HistoryEntry[] {
+  let unstarred = 0
+  return entries.filter(entry => entry.starred || ++unstarred <= MAX_HISTORY_ENTRIES)
+}
+
+// A result for a backend listing that is already in the history (a cache hit or a regeneration) replaces that
+// entry, which keeps its ID and star and moves to the top
+export function addToHistory(
+  history: SuggestionHistory,
+  input: FormInput,
+  result: SuggestionResult,
+  now = new Date()
+): SuggestionHistory {
+  const existing = result.listingId
+    ? history.entries.find(entry => entry.result.listingId === result.listingId)
+    : undefined
+  const entry: HistoryEntry = {
+    id: existing?.id ?? result.listingId ?? crypto.randomUUID(),
+    input,
+    result,
+    createdAt: now.toISOString(),
+    ...(existing?.starred && { starred: true })
+  }
+  const rest = history.entries.filter(other => other !== existing)
+  return { ...history, entries: trimmed([entry, ...rest]) }
+}
+
+export function toggleStar(history: SuggestionHistory, id: string): SuggestionHistory {
+  return {
+    ...history,
+    entries: history.entries.map(entry => entry.id === id ? { ...entry, starred: !entry.starred } : entry)
+  }
+}
+
+// Starred entries survive clearing
+export function clearHistory(history: SuggestionHistory, now = new Date()): SuggestionHistory {
+  return { entries: history.entries.filter(entry => entry.starred), clearedAt: now.toISOString() }
+}
+
+// Adds `incoming` entries, replacing the ones with the same ID or backend listing. Replaced entries keep
+// their local ID and star.
+export function mergeHistory(history: SuggestionHistory, incoming: HistoryEntry[]): SuggestionHistory {
+  const entries = [...history.entries]
+  for (const entry of incoming) {
+    const index = entries.findIndex(existing =>
+      existing.id === entry.id || (entry.result.listingId && existing.result.listingId === entry.result.listingId)
+    )
+    if (index === -1) {
+      entries.push(entry)
+    } else {
+      entries[index] = { ...entry, id: entries[index].id, starred: entries[index].starred }
+    }
+  }
+  entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  return { ...history, entries: trimmed(entries) }
+}
+
+const fromListing = (listing: Listing): HistoryEntry => ({
+  id: listing.id,
+  input: listing.input,
+  result: { ...listing.result, listingId: listing.id },
+  createdAt: listing.createdAt
+})
+
+// Backend sync: entries generated client-side are saved as listings, and listings created elsewhere
+// (another browser, the batch API) are pulled in. Returns the entries to merge with mergeHistory.
+export async function syncHistory(history: SuggestionHistory): Promise<HistoryEntry[]> {
+  const pushed = await Promise.all(history.entries
+    .filter(entry => !entry.result.listingId)
+    .map(async entry => {
+      const listing = await apiClient.saveListing({
+        input: entry.input,
+        result: entry.result,
+        // The client-side fallback generates with the same provider settings
+        provider: import.meta.env.VITE_LLM_PROVIDER || 'gemini',
+        model: import.meta.env.VITE_LLM_MODEL || 'default'
+      })
+      return { ...entry, result: { ...entry.result, listingId: listing.id } }
+    }))
+
+  const { listings } = await apiClient.listListings({ limit: MAX_HISTORY_ENTRIES })
+  const pulled = listings
+    .filter(listing => !history.clearedAt || listing.createdAt > history.clearedAt)
+    .map(fromListing)
+
+  return mergeHistory({ entries: pushed }, pulled).entries
+}
@@ -0,0 +1,2 @@
+export { DEFAULT_LOCALE, LANGUAGE_NAMES, SUPPORTED_LOCALES, translateBreadcrumbs } from '../../shared/locales'
+export type { Locale } from '../../shared/locales'
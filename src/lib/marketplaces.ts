@@ -0,0 +1,2 @@
+export { getListingProfile, LISTING_PROFILE_IDS, LISTING_PROFILES } from '../../shared/marketplaces'
+export type { ListingCheck, ListingProfile, ListingProfileId } from '../../shared/marketplaces'
@@ -0,0 +1,7 @@
+import { parsePromptWeights, promptVersions, SUGGESTION_PROMPT } from '../../shared/prompts'
+
+export { assignPromptVersion, buildSuggestionPrompt } from '../../shared/prompts'
+
+// VITE_PROMPT_VERSIONS splits client-side suggestions between prompt versions like the backend's
+// PROMPT_VERSIONS (e.g. "v7:90,v8:10"); the newest version is used by default
+export const promptWeights = parsePromptWeights(import.meta.env.VITE_PROMPT_VERSIONS, promptVersions(SUGGESTION_PROMPT)).weights
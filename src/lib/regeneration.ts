@@ -0,0 +1,2 @@
+export { MAX_INSTRUCTION_LENGTH, REGENERABLE_FIELDS } from '../../shared/regeneration'
+export type { RegenerableField, RegenerationRequest } from '../../shared/regeneration'
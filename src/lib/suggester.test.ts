@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { buildPrompt, chooseCategory } from './suggester'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { buildPrompt, chooseCategory, generateSuggestions } from './suggester'
 import { CATEGORIES } from './categories'
 
 describe('prompt generation', () => {
@@ -23,4 +23,46 @@ describe('category choice', () => {
   })
 })
 
+// Replays the responses recorded from the golden dataset in server/fixtures/llm
+describe('fixture replay', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('generates suggestions from recorded responses without the network', async () => {
+    vi.stubEnv('VITE_BACKEND_URL', '')
+    vi.stubEnv('VITE_LLM_FIXTURES', 'replay')
+
+    const result = await generateSuggestions({
+      name: 'Apple iPhone 12 128GB',
+      condition: 'B',
+      notes: 'Unlocked, battery health 87%, light scratches on the frame'
+    })
+    expect(result.category).toBe('Electronics > Communications > Telephony > Mobile Phones')
+    expect(result.marketingText).toContain('Apple iPhone 12 128GB')
+
+    await expect(generateSuggestions({ name: 'Never recorded', condition: 'B' }))
+      .rejects.toMatchObject({ code: 'FIXTURE_NOT_FOUND' })
+  })
+})
 
+describe('backend categories', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('classifies client-side suggestions with the categories the backend serves', async () => {
+    vi.stubEnv('VITE_BACKEND_URL', 'http://backend.test')
+    vi.stubEnv('VITE_LLM_PROVIDER', 'local')
+    const bicycles = 'Sporting Goods > Outdoor Recreation > Cycling > Bicycles'
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('/api/categories')
+      ? new Response(JSON.stringify({ categories: [bicycles, 'Toys & Games > Puzzles'] }))
+      : new Response(JSON.stringify({ error: 'Bad request' }), { status: 400 })))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await generateSuggestions({ name: 'Trek road bike', condition: 'B' })
+    expect(result.category).toBe(bicycles)
+  })
+})
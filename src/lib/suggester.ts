@@ -1,27 +1,72 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { CATEGORIES } from './categories'
+import { CATEGORIES, chooseCategory, describeCategory, loadCategories, rankCategories } from './categories'
 import { apiClient, ApiError } from './api'
-import type { FormInput, SuggestionResult } from './types'
-
-export const buildPrompt = (input: FormInput): string => {
-  const { name, condition, notes } = input
-  return [
-    'You are a marketplace listing assistant for second-hand electronics.',
-    'Tasks:',
-    '1) Write a concise, compelling marketing description (max 80 words).',
-    '2) Pick the best category from the provided list. Return JSON with keys marketingText and category.',
-    `Allowed categories: ${CATEGORIES.join(' | ')}`,
-    `Item: ${name}`,
-    `Condition: ${condition}`,
-    `Notes: ${notes ?? ''}`,
-    'Return JSON only.'
-  ].join('\n')
-}
+import { replayProvider } from './fixtures'
+import { assignPromptVersion, buildSuggestionPrompt, promptWeights } from './prompts'
+import { gradingScheme } from './grading'
+import { resolveAttributes } from '../../shared/attributes'
+import { gradeCondition } from '../../shared/grading'
+import { DEFAULT_LOCALE, localeWarnings, outputLocale, translateBreadcrumbs } from '../../shared/locales'
+import type { Locale } from '../../shared/locales'
+import { applyListingProfile, getListingProfile } from '../../shared/marketplaces'
+import { keepCurrentFields, regenerationCategories, regenerationInstructions, rejectedCategories } from '../../shared/regeneration'
+import { fixtureMode } from '../../shared/fixtures'
+import { checkInput, checkOutput, GUARDRAIL_ERROR_CODES } from '../../shared/guardrails'
+import type { GuardrailViolation } from '../../shared/guardrails'
+import { createProvider, ProviderError, safeParseJson } from '../../shared/providers'
+import type { LlmProvider } from '../../shared/providers'
+import { JsonFieldStreamReader } from '../../shared/streaming'
+import type { FormInput, RegenerationRequest, SuggestionResult } from './types'
+
+export { chooseCategory }
+
+// The same template as the backend, rendered with the backend's categories (see loadCategories)
+export const buildPrompt = (input: FormInput, version?: string, categories: string[] = CATEGORIES): string =>
+  buildSuggestionPrompt(input, categories, gradingScheme, version)
 
-const MODEL = 'gemini-1.5-flash'
 const MAX_RETRIES = 3
 const RETRY_DELAY = 1000
 
+// VITE_LLM_PROVIDER selects the provider ('gemini' by default, 'local' for offline use);
+// VITE_LLM_FALLBACK=local switches to the offline provider when the configured one is unavailable
+// and VITE_LLM_FIXTURES=replay answers from the recorded model responses instead
+async function getProvider(): Promise<LlmProvider> {
+  if (fixtureMode(import.meta.env.VITE_LLM_FIXTURES) === 'replay') {
+    return replayProvider()
+  }
+
+  try {
+    return createProvider({
+      provider: import.meta.env.VITE_LLM_PROVIDER,
+      apiKey: import.meta.env.VITE_GEMINI_API_KEY,
+      model: import.meta.env.VITE_LLM_MODEL,
+      fallback: import.meta.env.VITE_LLM_FALLBACK,
+      gradingScheme
+    })
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      throw new ApiError(
+        error.code === 'MISSING_API_KEY'
+          ? 'Missing Gemini API key. Please set VITE_GEMINI_API_KEY in your environment.'
+          : error.message,
+        error.code
+      )
+    }
+    throw error
+  }
+}
+
+// Same guardrails as the backend, with the same error codes
+function guard(violation: GuardrailViolation | null): void {
+  if (violation) {
+    throw new ApiError(violation.message, GUARDRAIL_ERROR_CODES[violation.stage], { ...violation, status: 422 })
+  }
+}
+
+// Content the backend blocked would be blocked again by the client-side fallback
+function isBlocked(error: unknown): boolean {
+  return error instanceof ApiError && Object.values(GUARDRAIL_ERROR_CODES).includes(error.code ?? '')
+}
+
 async function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
@@ -43,11 +88,17 @@ async function retryWithBackoff<T>(
         break
       }
       
-      // Don't retry on client errors (4xx)
-      if (error instanceof ApiError && error.code?.startsWith('HTTP_4')) {
+      // Don't retry on client errors (4xx), e.g. a missing API key or an exhausted quota
+      const status = error instanceof ApiError ? error.status ?? 0 : 0
+      if (error instanceof ApiError && (error.code?.startsWith('HTTP_4') || (status >= 400 && status < 500))) {
         break
       }
-      
+
+      // Neither does a prompt without a recorded response when replaying fixtures
+      if (error instanceof ProviderError) {
+        break
+      }
+
       // Exponential backoff with jitter
       const delayMs = baseDelay * Math.pow(2, attempt) + Math.random() * 1000
       await delay(delayMs)
@@ -57,158 +108,246 @@ async function retryWithBackoff<T>(
   throw lastError!
 }
 
-export async function generateSuggestions(input: FormInput): Promise<SuggestionResult> {
+export async function generateSuggestions(input: FormInput, images: File[] = []): Promise<SuggestionResult> {
   try {
     // Try backend API first if available
     if (import.meta.env.VITE_BACKEND_URL) {
       try {
         return await retryWithBackoff(() => 
-          apiClient.generateSuggestions(input)
+          apiClient.generateSuggestions(input, images)
         )
       } catch (error) {
+        if (isBlocked(error)) throw error
         console.warn('Backend API failed, falling back to client-side:', error)
         // Fall through to client-side implementation
       }
     }
     
     // Client-side fallback
+    guard(checkInput(input))
+    const promptVersion = assignPromptVersion(promptWeights)
+    const categories = await loadCategories()
     return await retryWithBackoff(async () => {
-      const apiKey = import.meta.env.VITE_GEMINI_API_KEY
-      if (!apiKey) {
-        throw new ApiError(
-          'Missing Gemini API key. Please set VITE_GEMINI_API_KEY in your environment.',
-          'MISSING_API_KEY'
-        )
-      }
-      
-      const client = new GoogleGenerativeAI(apiKey)
-      const model = client.getGenerativeModel({ model: MODEL })
-      const prompt = buildPrompt(input)
-      
-      const result = await model.generateContent(prompt)
-      const text = result.response.text().trim()
+      const provider = await getProvider()
+      const locale = outputLocale(input.locale, provider.locales)
+      const prompt = buildPrompt({ ...input, locale }, promptVersion, categories)
       
-      if (!text) {
-        throw new ApiError(
-          'AI model returned empty response',
-          'EMPTY_RESPONSE'
-        )
-      }
-      
-      const parsed = safeParseJson(text)
-      if (!parsed) {
-        throw new ApiError(
-          'Failed to parse AI response. Please try again.',
-          'PARSE_ERROR',
-          { rawResponse: text }
-        )
-      }
-      
-      const marketingText = parsed.marketingText
-      const category = parsed.category
-      
-      if (typeof marketingText !== 'string' || typeof category !== 'string') {
-        throw new ApiError(
-          'AI response missing required fields',
-          'INVALID_RESPONSE_FORMAT',
-          { parsed }
-        )
-      }
-      
-      if (!marketingText.trim() || !category.trim()) {
-        throw new ApiError(
-          'AI response contains empty required fields',
-          'INVALID_RESPONSE_FORMAT',
-          { parsed }
-        )
-      }
-      
-      const normalizedCategory = chooseCategory(category)
-      return { 
-        marketingText, 
-        category: normalizedCategory 
-      }
+      const { raw, data } = await provider.generateJson({ prompt, input: { ...input, locale }, categories })
+      return withSkippedPhotos(toSuggestionResult(raw, data, input, categories, locale, promptVersion), images)
     })
     
   } catch (error) {
-    if (error instanceof ApiError) {
-      throw error
+    throw toApiError(error)
+  }
+}
+
+// Streams the marketing text through `onToken` as it is generated and resolves with the full result.
+// Streaming requests are not retried: a partially rendered blurb cannot be taken back.
+export async function streamSuggestions(
+  input: FormInput,
+  onToken: (text: string) => void,
+  images: File[] = []
+): Promise<SuggestionResult> {
+  try {
+    if (import.meta.env.VITE_BACKEND_URL) {
+      let received = false
+      try {
+        return await apiClient.streamSuggestions(input, text => {
+          received = true
+          onToken(text)
+        }, images)
+      } catch (error) {
+        if (received || isBlocked(error)) throw error
+        console.warn('Backend streaming failed, falling back to client-side:', error)
+      }
     }
-    
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    
-    // Handle specific Gemini API errors
-    if (errorMessage.includes('API_KEY_INVALID')) {
-      throw new ApiError(
-        'Invalid API key. Please check your Gemini API key.',
-        'INVALID_API_KEY'
-      )
+
+    guard(checkInput(input))
+    const provider = await getProvider()
+    const locale = outputLocale(input.locale, provider.locales)
+    const promptVersion = assignPromptVersion(promptWeights)
+    const categories = await loadCategories()
+    const reader = new JsonFieldStreamReader('marketingText')
+    let raw = ''
+
+    for await (const chunk of provider.streamJson({
+      prompt: buildPrompt({ ...input, locale }, promptVersion, categories),
+      input: { ...input, locale },
+      categories
+    })) {
+      raw += chunk
+      const text = reader.push(chunk)
+      if (text) onToken(text)
     }
-    
-    if (errorMessage.includes('QUOTA_EXCEEDED')) {
-      throw new ApiError(
-        'API quota exceeded. Please try again later.',
-        'QUOTA_EXCEEDED'
-      )
+
+    raw = raw.trim()
+    return withSkippedPhotos(toSuggestionResult(raw, safeParseJson(raw), input, categories, locale, promptVersion), images)
+  } catch (error) {
+    throw toApiError(error)
+  }
+}
+
+// Regenerates the marketing text or the category of a suggestion, keeping the other field
+export async function regenerateSuggestion(input: FormInput, request: RegenerationRequest): Promise<SuggestionResult> {
+  try {
+    if (import.meta.env.VITE_BACKEND_URL) {
+      try {
+        return await retryWithBackoff(() => apiClient.regenerateSuggestion(input, request))
+      } catch (error) {
+        if (isBlocked(error)) throw error
+        console.warn('Backend regeneration failed, falling back to client-side:', error)
+      }
     }
-    
-    if (errorMessage.includes('MODEL_NOT_FOUND')) {
-      throw new ApiError(
-        'AI model not available. Please try again later.',
-        'MODEL_UNAVAILABLE'
-      )
+
+    guard(checkInput({ ...input, ...request.current, instruction: request.instruction }))
+    const promptVersion = assignPromptVersion(promptWeights)
+    const categories = await loadCategories()
+    if (!categories.includes(request.current.category)) {
+      throw new ApiError('Unknown category', 'INVALID_INPUT', { status: 400 })
     }
-    
-    // Generic error handling
-    throw new ApiError(
-      errorMessage || 'Failed to generate suggestions. Please try again.',
-      'UNKNOWN_ERROR',
-      error
-    )
+    const allowed = regenerationCategories(categories, request)
+    return await retryWithBackoff(async () => {
+      const provider = await getProvider()
+      const locale = outputLocale(input.locale, provider.locales)
+      const { raw, data } = await provider.generateJson({
+        prompt: [buildPrompt({ ...input, locale }, promptVersion, allowed), ...regenerationInstructions(request)].join('\n'),
+        input: { ...input, locale },
+        categories: allowed
+      })
+      const parsed = keepCurrentFields(data, request)
+      return toSuggestionResult(raw, parsed, input, categories, locale, promptVersion, rejectedCategories(request))
+    })
+  } catch (error) {
+    throw toApiError(error)
   }
 }
 
-export function chooseCategory(candidate: string): string {
-  if (!candidate) return CATEGORIES[0]
-  const lower = candidate.toLowerCase()
+// Photos are only analyzed by the backend; the client-side path says so instead of dropping them silently
+function withSkippedPhotos(result: SuggestionResult, images: File[]): SuggestionResult {
+  if (images.length === 0) return result
+  return {
+    ...result,
+    warnings: [
+      ...(result.warnings ?? []),
+      { code: 'VISION_UNAVAILABLE', message: 'Photos were not analyzed because the backend is unavailable' }
+    ]
+  }
+}
+
+function toSuggestionResult(
+  raw: string,
+  parsed: Record<string, unknown> | null,
+  input: FormInput,
+  categories: string[],
+  locale: Locale = input.locale ?? DEFAULT_LOCALE,
+  promptVersion?: string,
+  // Categories the result may not be put in, e.g. the one a seller rejected
+  exclude: string[] = []
+): SuggestionResult {
+  if (!raw) {
+    throw new ApiError(
+      'AI model returned empty response',
+      'EMPTY_RESPONSE'
+    )
+  }
+  
+  if (!parsed) {
+    throw new ApiError(
+      'Failed to parse AI response. Please try again.',
+      'PARSE_ERROR',
+      { rawResponse: raw }
+    )
+  }
+  
+  const marketingText = parsed.marketingText
+  const category = parsed.category
+  
+  if (typeof marketingText !== 'string' || typeof category !== 'string') {
+    throw new ApiError(
+      'AI response missing required fields',
+      'INVALID_RESPONSE_FORMAT',
+      { parsed }
+    )
+  }
   
-  // Find the most specific (longest) matching category
-  const matches = CATEGORIES.filter(c => lower.includes(c.toLowerCase()))
-  if (matches.length > 0) {
-    return matches.reduce((longest, current) => 
-      current.length > longest.length ? current : longest
+  if (!marketingText.trim() || !category.trim()) {
+    throw new ApiError(
+      'AI response contains empty required fields',
+      'INVALID_RESPONSE_FORMAT',
+      { parsed }
     )
   }
   
-  // Fallback to Jaccard similarity
-  const best = CATEGORIES
-    .map(c => ({ c, score: jaccard(lower, c.toLowerCase()) }))
-    .sort((a, b) => b.score - a.score)[0]
-  return best?.c ?? CATEGORIES[0]
+  const alternatives = Array.isArray(parsed.alternativeCategories)
+    ? parsed.alternativeCategories.filter((c): c is string => typeof c === 'string')
+    : []
+  const candidates = rankCategories(category, categories, {
+    context: `${input.name} ${input.notes ?? ''}`,
+    alternatives,
+    exclude
+  })
+  const { grading, warnings: gradingWarnings } = gradeCondition(input, gradingScheme)
+  const warnings = [...localeWarnings(input.locale, locale), ...gradingWarnings]
+  const labelLocale = input.locale ?? DEFAULT_LOCALE
+  const listing = applyListingProfile(
+    { title: typeof parsed.title === 'string' ? parsed.title : undefined, marketingText },
+    getListingProfile(input.profile),
+    input.name
+  )
+  guard(checkOutput(listing, input))
+  return { 
+    ...listing, 
+    ...describeCategory(candidates[0].category),
+    categoryCandidates: candidates,
+    attributes: resolveAttributes(parsed.attributes, input),
+    ...(grading && { grading }),
+    locale,
+    // Category labels do not depend on the provider, so they follow the requested locale even after a fallback
+    ...(labelLocale !== DEFAULT_LOCALE && { localizedBreadcrumbs: translateBreadcrumbs(candidates[0].category, labelLocale) }),
+    ...(warnings.length > 0 && { warnings }),
+    ...(promptVersion && { promptVersion })
+  }
 }
 
-function safeParseJson(text: string): Record<string, unknown> | null {
-  try {
-    const trimmed = text
-      .replace(/^```json\n?/i, '')
-      .replace(/^```\n?/i, '')
-      .replace(/```$/i, '')
-      .trim()
-    
-    if (!trimmed) return null
-    
-    return JSON.parse(trimmed)
-  } catch {
-    return null
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error
   }
-}
 
-function jaccard(a: string, b: string): number {
-  const sa = new Set(a.split(/[^a-z0-9]+/i).filter(Boolean))
-  const sb = new Set(b.split(/[^a-z0-9]+/i).filter(Boolean))
-  const intersection = new Set([...sa].filter(x => sb.has(x)))
-  const union = new Set([...sa, ...sb])
-  return union.size === 0 ? 0 : intersection.size / union.size
+  if (error instanceof ProviderError && error.code === 'FIXTURE_NOT_FOUND') {
+    return new ApiError(error.message, error.code)
+  }
+  
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  
+  // Handle specific Gemini API errors
+  if (errorMessage.includes('API_KEY_INVALID')) {
+    return new ApiError(
+      'Invalid API key. Please check your Gemini API key.',
+      'INVALID_API_KEY'
+    )
+  }
+  
+  if (errorMessage.includes('QUOTA_EXCEEDED')) {
+    return new ApiError(
+      'API quota exceeded. Please try again later.',
+      'QUOTA_EXCEEDED'
+    )
+  }
+  
+  if (errorMessage.includes('MODEL_NOT_FOUND')) {
+    return new ApiError(
+      'AI model not available. Please try again later.',
+      'MODEL_UNAVAILABLE'
+    )
+  }
+  
+  // Generic error handling
+  return new ApiError(
+    errorMessage || 'Failed to generate suggestions. Please try again.',
+    'UNKNOWN_ERROR',
+    error
+  )
 }
 
 // In production, route via a backend proxy to keep API keys server-side and add request auth & rate limiting.
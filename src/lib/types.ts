@@ -1,10 +1,19 @@
-export type FormInput = {
-  name: string
-  condition: 'Like New' | 'Good' | 'Fair'
-  notes?: string
-}
-
-export type SuggestionResult = {
-  marketingText: string
-  category: string
-}
+export type {
+  BatchItemResult,
+  BatchSuggestionResponse,
+  ComparableSale,
+  ConditionGrading,
+  DefectId,
+  FeedbackRating,
+  FormInput,
+  ImageFindings,
+  Listing,
+  ListingPage,
+  PriceRange,
+  ProductAttributes,
+  RegenerableField,
+  RegenerationRequest,
+  SuggestionFeedback,
+  SuggestionResult,
+  SuggestionWarning
+} from '../../shared/types'